@@ -7,14 +7,25 @@
 } from "react";
 import {
     ArrowDownToLine,
+    Copy,
+    Crop,
+    Film,
     Github,
+    Grid3x3,
     Image as ImageIcon,
+    LayoutGrid,
+    Loader2,
+    Lock,
     Paintbrush,
+    Pencil,
+    Plus,
+    RotateCcw,
+    Scaling,
     Settings,
+    SlidersHorizontal,
     Upload,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
-import { GifReader, GifWriter } from "omggif";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import {
@@ -25,7 +36,145 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { EmptyPlaceholder } from "@/components/empty-placeholder";
-import { hexToRgb } from "@/lib/utils";
+import { PaletteSwatches } from "@/components/palette-swatches";
+import { PaletteEditor } from "@/components/palette-editor";
+import { HistogramChart } from "@/components/histogram-chart";
+import { CropEditor } from "@/components/crop-editor";
+import {
+    downloadBlob,
+    formatBytes,
+    hexToRgb,
+} from "@/lib/utils";
+import { DITHER_MODES } from "@/lib/quantize";
+import type {
+    DitherMode,
+    PaletteEntry,
+} from "@/lib/quantize";
+import { DISTANCE_METRICS } from "@/lib/color-distance";
+import type { DistanceMetric } from "@/lib/color-distance";
+import {
+    DEFAULT_ADJUSTMENTS,
+    hasAdjustments,
+    lumaOf,
+} from "@/lib/adjustments";
+import type {
+    Histogram,
+    ImageAdjustments,
+} from "@/lib/adjustments";
+import { SAMPLE_FILTERS } from "@/lib/resample";
+import type { SampleFilter } from "@/lib/resample";
+import { OUTLINE_MODES } from "@/lib/outline";
+import type { OutlineMode } from "@/lib/outline";
+import {
+    IDENTITY_TRANSFORM,
+    isIdentityTransform,
+} from "@/lib/transform";
+import type { SourceTransform } from "@/lib/transform";
+import {
+    SVG_MODES,
+    buildSvgFromColors,
+} from "@/lib/svg";
+import type { SvgMode } from "@/lib/svg";
+import {
+    SPRITE_LAYOUTS,
+    SpriteSheetSizeError,
+    buildSpriteSheet,
+} from "@/lib/sprite-sheet";
+import type { SpriteLayout } from "@/lib/sprite-sheet";
+import { encodeAseprite } from "@/lib/aseprite";
+import {
+    TILE_EXPORT_FORMATS,
+    TILE_TARGETS,
+    buildConsoleTiles,
+    buildTileExport,
+} from "@/lib/tiles";
+import type {
+    TileExportFormat,
+    TileTarget,
+} from "@/lib/tiles";
+import {
+    TILED_MAP_FORMATS,
+    buildTiledMap,
+    buildTileset,
+    encodeTilesetPng,
+} from "@/lib/tileset";
+import type { TiledMapFormat } from "@/lib/tileset";
+import {
+    TEXT_EXPORT_FORMATS,
+    buildTextExport,
+} from "@/lib/text-export";
+import type { TextExportFormat } from "@/lib/text-export";
+import {
+    ConversionClient,
+    collectDroppedFiles,
+    uniqueOutputName,
+} from "@/lib/batch";
+import type { BatchItem } from "@/lib/batch";
+import { createZip } from "@/lib/zip";
+import type { ZipEntry } from "@/lib/zip";
+import { BatchPanel } from "@/components/batch-panel";
+import { GifTimelinePanel } from "@/components/gif-timeline-panel";
+import { ExportDialog } from "@/components/export-dialog";
+import type { ExportRequest } from "@/components/export-dialog";
+import {
+    MAX_EXPORT_SCALE,
+    formatExportName,
+    stripExtension,
+} from "@/lib/export-scales";
+import {
+    DECODE_BUDGETS,
+    DEFAULT_DECODE_BUDGET_MB,
+    DecodeBudgetError,
+    createGifPreview,
+    extractGifSource,
+} from "@/lib/gif-source";
+import type { GifSource } from "@/lib/gif-source";
+import {
+    applyTimeline,
+    createTimeline,
+} from "@/lib/timeline";
+import type { GifTimeline } from "@/lib/timeline";
+import {
+    MAX_VIDEO_FRAME_CAP,
+    extractVideoSource,
+    frameToDataUrl,
+    getDefaultVideoTrim,
+    getVideoFrameTimes,
+    isVideoFile,
+    readVideoInfo,
+} from "@/lib/video-source";
+import type {
+    VideoInfo,
+    VideoTrim,
+} from "@/lib/video-source";
+import {
+    ConversionCancelledError,
+    RASTER_FORMATS,
+    buildPngText,
+    getSafeExportPixelSize,
+    getSourceTransfer,
+    isAnimatedFormat,
+} from "@/lib/convert";
+import type {
+    RasterExport,
+    ConversionSettings,
+    ConversionSource,
+    ConvertRequest,
+    ConvertResponse,
+    ConvertedFrame,
+    RasterFormat,
+} from "@/lib/convert";
+import {
+    MAX_AUTO_COLORS,
+    MIN_AUTO_COLORS,
+    PALETTE_ALGORITHMS,
+} from "@/lib/palette-extract";
+import type { PaletteAlgorithm } from "@/lib/palette-extract";
+import {
+    loadCustomPalettes,
+    saveCustomPalettes,
+} from "@/lib/palette-store";
+import type { StoredPalette } from "@/lib/palette-store";
 import { AuroraBackground } from "@/components/ui/shadcn-io/aurora-background";
 
 const PIXEL_PRESETS = [
@@ -195,30 +344,15 @@ const INTRO_STEPS: {
 type PaletteId =
     (typeof PIXEL_PRESETS)[number]["id"];
 
-type RasterFormat = "image/png" | "image/gif";
+const AUTO_PALETTE_ID = "auto";
 
-type PaletteEntry = {
-    hex: string;
-    rgb: ReturnType<typeof hexToRgb>;
-};
-
-type GifFrameData = {
-    pixels: Uint8ClampedArray;
-    delay: number;
-};
-
-type GifSource = {
-    width: number;
-    height: number;
-    loopCount: number | null;
-    frames: GifFrameData[];
-};
-
-const MAX_GIF_PIXELS = 4_000_000;
-
-const getPalette = (id: PaletteId) =>
-    PIXEL_PRESETS.find((p) => p.id === id) ??
-    PIXEL_PRESETS[0];
+const getPalette = (
+    id: PaletteId,
+    customPalettes: StoredPalette[] = []
+) =>
+    [...PIXEL_PRESETS, ...customPalettes].find(
+        (p) => p.id === id
+    ) ?? PIXEL_PRESETS[0];
 
 export default function App() {
     const [pixelSize, setPixelSize] =
@@ -227,6 +361,92 @@ export default function App() {
         useState(128);
     const [paletteId, setPaletteId] =
         useState<PaletteId>("gameboy");
+    const [ditherMode, setDitherMode] =
+        useState<DitherMode>("none");
+    const [ditherStrength, setDitherStrength] =
+        useState(100);
+    const [distanceMetric, setDistanceMetric] =
+        useState<DistanceMetric>("rgb");
+    const [alphaThreshold, setAlphaThreshold] =
+        useState(128);
+    const [sampleFilter, setSampleFilter] =
+        useState<SampleFilter>("box");
+    const [outlineMode, setOutlineMode] =
+        useState<OutlineMode>("none");
+    const [outlineColor, setOutlineColor] =
+        useState<string | null>(null);
+    const [
+        outlineSelective,
+        setOutlineSelective,
+    ] = useState(false);
+    const [outlineEdge, setOutlineEdge] =
+        useState(0);
+    const [
+        temporalThreshold,
+        setTemporalThreshold,
+    ] = useState(0);
+    const [adjustments, setAdjustments] =
+        useState<ImageAdjustments>(
+            DEFAULT_ADJUSTMENTS
+        );
+    const [showAdjustments, setShowAdjustments] =
+        useState(false);
+    const [showTiles, setShowTiles] =
+        useState(false);
+    const [tileTarget, setTileTarget] =
+        useState<TileTarget>("gameboy");
+    const [tileFormat, setTileFormat] =
+        useState<TileExportFormat>("binary");
+    const [tilesetSize, setTilesetSize] =
+        useState(16);
+    const [tilesetFlips, setTilesetFlips] =
+        useState(true);
+    const [tiledFormat, setTiledFormat] =
+        useState<TiledMapFormat>("tmx");
+    const [textFormat, setTextFormat] =
+        useState<TextExportFormat>("css");
+    const [batchItems, setBatchItems] = useState<
+        BatchItem[]
+    >([]);
+    const [batchOutputs, setBatchOutputs] =
+        useState({ raster: true, svg: false });
+    const [isBatchRunning, setIsBatchRunning] =
+        useState(false);
+    const [batchZip, setBatchZip] =
+        useState<Blob | null>(null);
+    const [
+        showExportDialog,
+        setShowExportDialog,
+    ] = useState(false);
+    const [histogram, setHistogram] =
+        useState<Histogram | null>(null);
+    const [sourceTransform, setSourceTransform] =
+        useState<SourceTransform>(
+            IDENTITY_TRANSFORM
+        );
+    const [showCropEditor, setShowCropEditor] =
+        useState(false);
+    const [svgMode, setSvgMode] =
+        useState<SvgMode>("cells");
+    const [svgClasses, setSvgClasses] =
+        useState(false);
+    const [spriteLayout, setSpriteLayout] =
+        useState<SpriteLayout>("grid");
+    const [resultFrames, setResultFrames] =
+        useState<ConvertedFrame[]>([]);
+    const [customPalettes, setCustomPalettes] =
+        useState<StoredPalette[]>(
+            loadCustomPalettes
+        );
+    const [autoAlgorithm, setAutoAlgorithm] =
+        useState<PaletteAlgorithm>("median-cut");
+    const [autoColorCount, setAutoColorCount] =
+        useState(8);
+    const [autoColors, setAutoColors] = useState<
+        string[] | null
+    >(null);
+    const [editingPalette, setEditingPalette] =
+        useState<StoredPalette | null>(null);
     const [sourceName, setSourceName] =
         useState("");
     const [sourcePreview, setSourcePreview] =
@@ -246,13 +466,55 @@ export default function App() {
         useState(true);
     const [isProcessing, setIsProcessing] =
         useState(false);
-    const [sourceGif, setSourceGif] =
+    const [parsedGif, setParsedGif] =
         useState<GifSource | null>(null);
+    const [gifTimeline, setGifTimeline] =
+        useState<GifTimeline | null>(null);
+    const sourceGif = useMemo(
+        () =>
+            parsedGif && gifTimeline
+                ? applyTimeline(
+                      parsedGif,
+                      gifTimeline
+                  )
+                : null,
+        [parsedGif, gifTimeline]
+    );
+    const [sourceStill, setSourceStill] =
+        useState<ConversionSource | null>(null);
     const [isGifParsing, setIsGifParsing] =
         useState(false);
+    const [sourceVideo, setSourceVideo] =
+        useState<
+            ({ file: File } & VideoInfo) | null
+        >(null);
+    const [videoTrim, setVideoTrim] =
+        useState<VideoTrim | null>(null);
+    const [videoTrimDraft, setVideoTrimDraft] =
+        useState<VideoTrim | null>(null);
+    const [isVideoDecoding, setIsVideoDecoding] =
+        useState(false);
+    const [decodeBudget, setDecodeBudget] =
+        useState(
+            String(DEFAULT_DECODE_BUDGET_MB)
+        );
+    const budgetBytes =
+        Number(decodeBudget) * 1024 * 1024;
     const palette = useMemo(
-        () => getPalette(paletteId),
-        [paletteId]
+        () =>
+            paletteId === AUTO_PALETTE_ID
+                ? {
+                      id: AUTO_PALETTE_ID,
+                      label: "Auto",
+                      description:
+                          "Colors extracted from the uploaded source.",
+                      colors: autoColors ?? [],
+                  }
+                : getPalette(
+                      paletteId,
+                      customPalettes
+                  ),
+        [paletteId, autoColors, customPalettes]
     );
     const paletteData: PaletteEntry[] = useMemo(
         () =>
@@ -262,24 +524,102 @@ export default function App() {
             })),
         [palette]
     );
+    const resolvedOutlineColor = useMemo(() => {
+        if (
+            outlineColor &&
+            palette.colors.includes(outlineColor)
+        ) {
+            return outlineColor;
+        }
+        return (
+            paletteData.reduce<PaletteEntry | null>(
+                (darkest, entry) =>
+                    !darkest ||
+                    lumaOf(
+                        entry.rgb.r,
+                        entry.rgb.g,
+                        entry.rgb.b
+                    ) <
+                        lumaOf(
+                            darkest.rgb.r,
+                            darkest.rgb.g,
+                            darkest.rgb.b
+                        )
+                        ? entry
+                        : darkest,
+                null
+            )?.hex ?? "#000000"
+        );
+    }, [outlineColor, palette, paletteData]);
     const fileInputRef =
         useRef<HTMLInputElement | null>(null);
     const jobRef = useRef(0);
+    const exportIdRef = useRef(0);
+    const paletteJobRef = useRef(0);
+    const exportJobRef = useRef<{
+        jobId: number;
+        resolve: (blob: Blob) => void;
+        reject: (error: Error) => void;
+    } | null>(null);
+    const workerRef = useRef<Worker | null>(null);
+
+    const loadAnimation = useCallback(
+        (gif: GifSource) => {
+            const preview = createGifPreview(gif);
+            const source: ConversionSource = {
+                kind: "frames",
+                gif,
+            };
+            workerRef.current?.postMessage(
+                {
+                    type: "source",
+                    source,
+                } satisfies ConvertRequest,
+                getSourceTransfer(source)
+            );
+            setParsedGif(preview);
+            setGifTimeline(
+                createTimeline(preview)
+            );
+        },
+        []
+    );
 
     const handleFile = useCallback(
         (file: File) => {
-            if (!file.type.startsWith("image")) {
+            const isVideo = isVideoFile(file);
+            if (
+                !file.type.startsWith("image") &&
+                !isVideo
+            ) {
                 setStatus(
-                    "Please upload an image file."
+                    "Please upload an image or video file."
                 );
                 return;
             }
+            jobRef.current += 1;
+            paletteJobRef.current += 1;
+            workerRef.current?.postMessage({
+                type: "clear",
+            } satisfies ConvertRequest);
+            setIsProcessing(false);
             setStatus("");
             setSourceName(file.name);
             setSourcePreview(null);
             setResultPreview(null);
             setVectorData(null);
-            setSourceGif(null);
+            setResultFrames([]);
+            setParsedGif(null);
+            setGifTimeline(null);
+            setSourceVideo(null);
+            setVideoTrim(null);
+            setVideoTrimDraft(null);
+            setSourceStill(null);
+            setAutoColors(null);
+            setHistogram(null);
+            setSourceTransform(
+                IDENTITY_TRANSFORM
+            );
 
             const lowerName =
                 file.name.toLowerCase();
@@ -287,9 +627,40 @@ export default function App() {
                 file.type === "image/gif" ||
                 lowerName.endsWith(".gif");
             setOutputFormat(
-                isGif ? "image/gif" : "image/png"
+                isGif || isVideo
+                    ? "image/gif"
+                    : "image/png"
             );
 
+            if (isVideo) {
+                setIsGifParsing(false);
+                readVideoInfo(file)
+                    .then((info) => {
+                        const trim =
+                            getDefaultVideoTrim(
+                                info.duration
+                            );
+                        setSourceVideo({
+                            file,
+                            ...info,
+                        });
+                        setVideoTrim(trim);
+                        setVideoTrimDraft(trim);
+                    })
+                    .catch((error) => {
+                        console.error(
+                            "[video-load]",
+                            error
+                        );
+                        setStatus(
+                            error instanceof Error
+                                ? error.message
+                                : "Video failed to load."
+                        );
+                    });
+                return;
+            }
+
             const previewReader =
                 new FileReader();
             previewReader.onload = () => {
@@ -299,17 +670,31 @@ export default function App() {
             };
             previewReader.readAsDataURL(file);
 
+            const loadStill = () =>
+                loadStillSource(file)
+                    .then(setSourceStill)
+                    .catch((error) => {
+                        console.error(
+                            "[image-load]",
+                            error
+                        );
+                        setStatus(
+                            "Image failed to load."
+                        );
+                    });
+
             if (isGif) {
                 setIsGifParsing(true);
                 file.arrayBuffer()
                     .then((buffer) => {
-                        const parsedGif =
+                        loadAnimation(
                             extractGifSource(
                                 new Uint8Array(
                                     buffer
-                                )
-                            );
-                        setSourceGif(parsedGif);
+                                ),
+                                budgetBytes
+                            )
+                        );
                         setStatus("");
                     })
                     .catch((error) => {
@@ -318,410 +703,393 @@ export default function App() {
                             error
                         );
                         setStatus(
-                            "Failed to parse GIF."
+                            error instanceof
+                                DecodeBudgetError
+                                ? error.message
+                                : "Failed to parse GIF."
                         );
                         setOutputFormat(
                             "image/png"
                         );
-                        setSourceGif(null);
+                        setParsedGif(null);
+                        setGifTimeline(null);
+                        loadStill();
                     })
                     .finally(() =>
                         setIsGifParsing(false)
                     );
             } else {
                 setIsGifParsing(false);
+                loadStill();
             }
         },
-        []
+        [budgetBytes, loadAnimation]
     );
+    const handleFiles = useCallback(
+        (files: File[]) => {
+            if (files.length === 1) {
+                handleFile(files[0]);
+                return;
+            }
+            if (!files.length) {
+                setStatus(
+                    "Please upload an image file."
+                );
+                return;
+            }
+            setBatchZip(null);
+            setBatchItems(
+                files.map((file, id) => ({
+                    id,
+                    file,
+                    status: "queued",
+                    message: "",
+                }))
+            );
+            setStatus(
+                `${files.length} files queued for batch conversion.`
+            );
+        },
+        [handleFile]
+    );
+    useEffect(() => {
+        if (!sourceVideo || !videoTrim) return;
+        const controller = new AbortController();
+        jobRef.current += 1;
+        paletteJobRef.current += 1;
+        workerRef.current?.postMessage({
+            type: "clear",
+        } satisfies ConvertRequest);
+        setIsProcessing(false);
+        setParsedGif(null);
+        setGifTimeline(null);
+        setIsVideoDecoding(true);
+        setStatus("Decoding video...");
+        extractVideoSource(
+            sourceVideo.file,
+            videoTrim,
+            {
+                signal: controller.signal,
+                budgetBytes,
+                onProgress: (done, total) =>
+                    setStatus(
+                        `Decoding video... ${done}/${total}`
+                    ),
+            }
+        )
+            .then((parsed) => {
+                setSourcePreview(
+                    frameToDataUrl(
+                        parsed.frames[0],
+                        parsed.width,
+                        parsed.height
+                    )
+                );
+                loadAnimation(parsed);
+                setStatus("");
+            })
+            .catch((error) => {
+                if (controller.signal.aborted)
+                    return;
+                console.error(
+                    "[video-decode]",
+                    error
+                );
+                setStatus(
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to decode video."
+                );
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) {
+                    setIsVideoDecoding(false);
+                }
+            });
+        return () => controller.abort();
+    }, [
+        sourceVideo,
+        videoTrim,
+        budgetBytes,
+        loadAnimation,
+    ]);
+
     const onDrop = useCallback(
         (
             event: React.DragEvent<HTMLDivElement>
         ) => {
             event.preventDefault();
-            const file =
-                event.dataTransfer.files?.[0];
-            if (file) handleFile(file);
+            collectDroppedFiles(
+                event.dataTransfer
+            )
+                .then(handleFiles)
+                .catch((error) => {
+                    console.error(
+                        "[file-drop]",
+                        error
+                    );
+                    setStatus(
+                        "Could not read the dropped files."
+                    );
+                });
         },
-        [handleFile]
+        [handleFiles]
     );
 
-    const convertImage = useCallback(
-        (jobId: number) => {
-            const describeError = (
-                error: unknown
-            ) => {
-                if (!error) return "";
-                if (
-                    typeof error === "object" &&
-                    error &&
-                    "message" in error &&
-                    typeof (
-                        error as {
-                            message: unknown;
-                        }
-                    ).message === "string"
-                ) {
-                    return (error as Error)
-                        .message;
-                }
-                if (typeof error === "string")
-                    return error;
-                try {
-                    return JSON.stringify(error);
-                } catch {
-                    return "";
-                }
-            };
-
-            const fail = (
-                message: string,
-                error?: unknown
-            ) => {
-                if (jobRef.current !== jobId)
-                    return;
-                const detail =
-                    describeError(error);
-                setStatus(
-                    detail
-                        ? `${message}: ${detail}`
-                        : message
-                );
-                setIsProcessing(false);
-            };
-
+    useEffect(() => {
+        const worker = new Worker(
+            new URL(
+                "./workers/convert.worker.ts",
+                import.meta.url
+            ),
+            { type: "module" }
+        );
+        worker.onmessage = (
+            event: MessageEvent<ConvertResponse>
+        ) => {
+            const message = event.data;
             if (
-                outputFormat === "image/gif" &&
-                !sourceGif
+                message.type ===
+                    "palette-result" ||
+                message.type === "palette-error"
             ) {
-                if (isGifParsing) {
-                    setStatus("Parsing GIF...");
+                if (
+                    paletteJobRef.current !==
+                    message.jobId
+                )
                     return;
+                if (
+                    message.type ===
+                    "palette-result"
+                ) {
+                    setAutoColors(message.colors);
+                } else {
+                    setStatus(
+                        `Failed to generate a palette from this image: ${message.message}`
+                    );
                 }
-                fail(
-                    "GIF data is not available."
-                );
                 return;
             }
-
-            const finalize = (
-                previewUrl: string,
-                vector: {
-                    colors: string[][];
-                    width: number;
-                    height: number;
-                } | null,
-                nextStatus = ""
-            ) => {
-                if (jobRef.current !== jobId) {
-                    if (
-                        previewUrl.startsWith(
-                            "blob:"
-                        )
-                    ) {
-                        URL.revokeObjectURL(
-                            previewUrl
-                        );
-                    }
-                    return;
-                }
-                setResultPreview(previewUrl);
-                if (vector) {
-                    setVectorData({
-                        colors: vector.colors,
-                        width: vector.width,
-                        height: vector.height,
-                        pixelSize,
-                    });
-                }
-                setStatus(nextStatus);
-                setIsProcessing(false);
-            };
-
             if (
-                outputFormat === "image/gif" &&
-                sourceGif
+                message.type ===
+                    "export-progress" ||
+                message.type ===
+                    "export-result" ||
+                message.type === "export-error"
             ) {
-                try {
-                    const frameCount =
-                        sourceGif.frames.length;
-                    if (!frameCount) {
-                        throw new Error(
-                            "GIF contains no valid frames."
-                        );
-                    }
-                    const aspect =
-                        sourceGif.height /
-                            sourceGif.width || 1;
-                    const sampleWidth = Math.max(
-                        8,
-                        resolution
-                    );
-                    const sampleHeight = Math.max(
-                        8,
-                        Math.round(
-                            sampleWidth * aspect
-                        )
-                    );
-                    const safePixelSize =
-                        getSafeGifPixelSize(
-                            sampleWidth,
-                            sampleHeight,
-                            frameCount,
-                            pixelSize
-                        );
-                    const paletteHex =
-                        paletteData.map(
-                            (entry) => entry.hex
-                        );
-                    const {
-                        paletteColors,
-                        colorIndexMap,
-                        fallbackIndex,
-                    } =
-                        buildPaletteLookup(
-                            paletteHex
-                        );
-                    const finalWidth =
-                        sampleWidth *
-                        safePixelSize;
-                    const finalHeight =
-                        sampleHeight *
-                        safePixelSize;
-                    const buffer = new Uint8Array(
-                        finalWidth *
-                            finalHeight *
-                            frameCount *
-                            5
-                    );
-                    const writer = new GifWriter(
-                        buffer,
-                        finalWidth,
-                        finalHeight,
-                        {
-                            palette:
-                                paletteColors,
-                            loop: normalizeLoopCount(
-                                sourceGif.loopCount
-                            ),
-                        }
-                    );
-                    let firstVector: {
-                        colors: string[][];
-                        width: number;
-                        height: number;
-                    } | null = null;
-                    sourceGif.frames.forEach(
-                        (frame) => {
-                            const quantizedGrid =
-                                quantizeFramePixels(
-                                    {
-                                        framePixels:
-                                            frame.pixels,
-                                        sourceWidth:
-                                            sourceGif.width,
-                                        sourceHeight:
-                                            sourceGif.height,
-                                        sampleWidth,
-                                        sampleHeight,
-                                        paletteData,
-                                    }
-                                );
-                            if (!firstVector) {
-                                firstVector = {
-                                    colors: quantizedGrid,
-                                    width: sampleWidth,
-                                    height: sampleHeight,
-                                };
-                            }
-                            const indexedPixels =
-                                colorGridToIndexedPixels(
-                                    {
-                                        colors: quantizedGrid,
-                                        pixelSize:
-                                            safePixelSize,
-                                        colorIndexMap,
-                                        fallbackIndex,
-                                    }
-                                );
-                            writer.addFrame(
-                                0,
-                                0,
-                                finalWidth,
-                                finalHeight,
-                                indexedPixels,
-                                {
-                                    delay: clampFrameDelay(
-                                        frame.delay
-                                    ),
-                                }
-                            );
-                        }
-                    );
-                    const byteLength =
-                        writer.end();
-                    const gifUrl =
-                        URL.createObjectURL(
-                            new Blob(
-                                [
-                                    buffer.subarray(
-                                        0,
-                                        byteLength
-                                    ),
-                                ],
-                                {
-                                    type: "image/gif",
-                                }
-                            )
-                        );
-                    finalize(
-                        gifUrl,
-                        firstVector,
-                        safePixelSize < pixelSize
-                            ? "GIF output is large; pixel size was reduced automatically."
-                            : ""
-                    );
-                } catch (error) {
-                    console.error(
-                        "[gif-convert]",
-                        error
+                const pending =
+                    exportJobRef.current;
+                if (
+                    pending?.jobId !==
+                    message.jobId
+                )
+                    return;
+                if (
+                    message.type ===
+                    "export-progress"
+                ) {
+                    setStatus(
+                        `Exporting frame ${message.done}/${message.total}...`
                     );
-                    fail(
-                        "GIF processing failed",
-                        error
+                    return;
+                }
+                exportJobRef.current = null;
+                if (
+                    message.type ===
+                    "export-result"
+                ) {
+                    pending.resolve(message.blob);
+                } else {
+                    pending.reject(
+                        new Error(message.message)
                     );
                 }
                 return;
             }
-
-            if (!sourcePreview) {
-                fail(
-                    "Please upload an image first."
-                );
+            if (jobRef.current !== message.jobId)
                 return;
-            }
-
-            const image = new Image();
-            image.crossOrigin = "anonymous";
-            image.onload = () => {
-                if (jobRef.current !== jobId)
-                    return;
-                try {
-                    const aspect =
-                        image.height /
-                            image.width || 1;
-                    const sampleWidth = Math.max(
-                        8,
-                        resolution
-                    );
-                    const sampleHeight = Math.max(
-                        8,
-                        Math.round(
-                            sampleWidth * aspect
-                        )
-                    );
-                    const sampleCanvas =
-                        document.createElement(
-                            "canvas"
-                        );
-                    sampleCanvas.width =
-                        sampleWidth;
-                    sampleCanvas.height =
-                        sampleHeight;
-                    const sampleCtx =
-                        sampleCanvas.getContext(
-                            "2d",
-                            {
-                                willReadFrequently:
-                                    true,
-                            }
-                        );
-                    if (!sampleCtx) {
-                        throw new Error(
-                            "Unable to create a sample canvas."
+            switch (message.type) {
+                case "progress":
+                    if (message.total > 1) {
+                        setStatus(
+                            `${
+                                message.phase ===
+                                "quantize"
+                                    ? "Quantizing"
+                                    : "Encoding"
+                            } frame ${message.done}/${message.total}...`
                         );
                     }
-                    sampleCtx.drawImage(
-                        image,
-                        0,
-                        0,
-                        sampleWidth,
-                        sampleHeight
-                    );
-                    const quantized =
-                        quantizeSampleCanvas({
-                            sampleCanvas,
-                            sampleCtx,
-                            paletteData,
-                            pixelSize,
+                    break;
+                case "result":
+                    try {
+                        setResultPreview(
+                            URL.createObjectURL(
+                                message.blob
+                            )
+                        );
+                        setVectorData({
+                            colors: message.colors,
+                            width: message.width,
+                            height: message.height,
+                            pixelSize:
+                                message.pixelSize,
                         });
-                    if (!quantized.outputCanvas) {
-                        throw new Error(
-                            "Missing output canvas."
+                        setResultFrames(
+                            message.frames
                         );
-                    }
-                    const previewUrl =
-                        quantized.outputCanvas.toDataURL(
-                            "image/png"
+                        setHistogram(
+                            message.histogram
                         );
-                    finalize(
-                        previewUrl,
-                        {
-                            colors: quantized.colorGrid,
-                            width: quantized.sampleWidth,
-                            height: quantized.sampleHeight,
-                        },
-                        ""
-                    );
-                } catch (error) {
-                    console.error(
-                        "[image-convert]",
-                        error
-                    );
-                    fail(
-                        "Failed to generate pixel art.",
-                        error
+                        setStatus(message.notice);
+                    } catch (error) {
+                        console.error(
+                            "[image-convert]",
+                            error
+                        );
+                        setStatus(
+                            "Failed to generate pixel art."
+                        );
+                    }
+                    setIsProcessing(false);
+                    break;
+                case "error":
+                    setStatus(
+                        `Failed to generate pixel art: ${message.message}`
                     );
-                }
-            };
-            image.onerror = (event) => {
-                fail(
-                    "Image failed to load.",
-                    event
-                );
-            };
-            image.src = sourcePreview;
-        },
-        [
-            outputFormat,
-            paletteData,
-            pixelSize,
-            resolution,
-            sourceGif,
-            sourcePreview,
-            isGifParsing,
-        ]
-    );
+                    setIsProcessing(false);
+                    break;
+            }
+        };
+        worker.onerror = (event) => {
+            console.error(
+                "[convert-worker]",
+                event
+            );
+            setStatus(
+                "The conversion worker stopped unexpectedly."
+            );
+            setIsProcessing(false);
+            exportJobRef.current?.reject(
+                new Error(
+                    "The conversion worker stopped unexpectedly."
+                )
+            );
+            exportJobRef.current = null;
+        };
+        workerRef.current = worker;
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!sourceStill) return;
+        workerRef.current?.postMessage({
+            type: "source",
+            source: sourceStill,
+        } satisfies ConvertRequest);
+    }, [sourceStill]);
+
+    useEffect(() => {
+        if (!gifTimeline) return;
+        workerRef.current?.postMessage({
+            type: "timeline",
+            timeline: gifTimeline,
+        } satisfies ConvertRequest);
+    }, [gifTimeline]);
+
+    const conversionSettings: ConversionSettings =
+        useMemo(
+            () => ({
+                paletteId,
+                paletteHex: paletteData.map(
+                    (entry) => entry.hex
+                ),
+                distanceMetric,
+                dither: ditherMode,
+                ditherStrength:
+                    ditherStrength / 100,
+                alphaThreshold,
+                adjustments,
+                sampleFilter,
+                outline: {
+                    mode: outlineMode,
+                    color: resolvedOutlineColor,
+                    selective: outlineSelective,
+                    edgeThreshold: outlineEdge,
+                },
+                transform: sourceTransform,
+                resolution,
+                pixelSize,
+                outputFormat,
+                temporalThreshold,
+            }),
+            [
+                paletteId,
+                paletteData,
+                distanceMetric,
+                ditherMode,
+                ditherStrength,
+                alphaThreshold,
+                adjustments,
+                sampleFilter,
+                outlineMode,
+                resolvedOutlineColor,
+                outlineSelective,
+                outlineEdge,
+                sourceTransform,
+                resolution,
+                pixelSize,
+                outputFormat,
+                temporalThreshold,
+            ]
+        );
 
     const rebuild = useCallback(() => {
-        if (!sourcePreview && !sourceGif) {
+        if (!sourceStill && !sourceGif) {
             setStatus(
                 "Please upload an image first."
             );
             return;
         }
-        const jobId = jobRef.current + 1;
-        jobRef.current = jobId;
-        setIsProcessing(true);
+        if (
+            isAnimatedFormat(outputFormat) &&
+            !sourceGif
+        ) {
+            setStatus(
+                isGifParsing
+                    ? "Parsing GIF..."
+                    : "GIF data is not available."
+            );
+            return;
+        }
+        const worker = workerRef.current;
+        if (!worker) return;
+        const jobId = jobRef.current + 1;
+        jobRef.current = jobId;
+        setIsProcessing(true);
         setStatus("Building pixel preview...");
         setVectorData(null);
+        setResultFrames([]);
         setResultPreview(null);
-        convertImage(jobId);
-    }, [convertImage, sourceGif, sourcePreview]);
+        worker.postMessage({
+            type: "convert",
+            jobId,
+            settings: conversionSettings,
+        } satisfies ConvertRequest);
+    }, [
+        conversionSettings,
+        outputFormat,
+        sourceGif,
+        sourceStill,
+        isGifParsing,
+    ]);
 
     useEffect(() => {
         if (
-            outputFormat === "image/gif" &&
+            isAnimatedFormat(outputFormat) &&
             (isGifParsing || !sourceGif)
         ) {
             if (isGifParsing) {
@@ -729,20 +1097,151 @@ export default function App() {
             }
             return;
         }
-        if (!sourcePreview && !sourceGif) {
+        if (!sourceStill && !sourceGif) {
             setResultPreview(null);
             setVectorData(null);
+            setResultFrames([]);
             return;
         }
+        if (!paletteData.length) return;
         rebuild();
     }, [
         rebuild,
-        sourcePreview,
+        sourceStill,
         sourceGif,
         outputFormat,
         isGifParsing,
+        paletteData,
+    ]);
+
+    useEffect(() => {
+        saveCustomPalettes(customPalettes);
+    }, [customPalettes]);
+
+    useEffect(() => {
+        if (paletteId !== AUTO_PALETTE_ID) return;
+        if (!sourceStill && !sourceGif) {
+            setAutoColors(null);
+            return;
+        }
+        if (
+            isAnimatedFormat(outputFormat) &&
+            !sourceGif
+        )
+            return;
+        const worker = workerRef.current;
+        if (!worker) return;
+        const jobId = paletteJobRef.current + 1;
+        paletteJobRef.current = jobId;
+        worker.postMessage({
+            type: "palette",
+            jobId,
+            algorithm: autoAlgorithm,
+            colorCount: autoColorCount,
+            transform: sourceTransform,
+        } satisfies ConvertRequest);
+    }, [
+        paletteId,
+        sourceStill,
+        sourceGif,
+        outputFormat,
+        autoAlgorithm,
+        autoColorCount,
+        sourceTransform,
     ]);
 
+    const handleLockAutoPalette = () => {
+        if (!autoColors?.length) return;
+        const algorithmLabel =
+            PALETTE_ALGORITHMS.find(
+                (algorithm) =>
+                    algorithm.id === autoAlgorithm
+            )?.label ?? autoAlgorithm;
+        const locked: StoredPalette = {
+            id: `custom-${Date.now().toString(36)}`,
+            label: `${
+                sourceName.replace(
+                    /\.[^.]+$/,
+                    ""
+                ) || "Auto"
+            } (${autoColors.length})`,
+            description: `${algorithmLabel} palette extracted from ${
+                sourceName || "an upload"
+            }.`,
+            colors: autoColors,
+        };
+        setCustomPalettes((prev) => [
+            ...prev,
+            locked,
+        ]);
+        setPaletteId(locked.id);
+    };
+
+    const isCustomPalette = customPalettes.some(
+        (entry) => entry.id === paletteId
+    );
+
+    const openPaletteEditor = (
+        mode: "edit" | "new"
+    ) => {
+        if (mode === "edit" && isCustomPalette) {
+            setEditingPalette(palette);
+            return;
+        }
+        setEditingPalette({
+            id: `custom-${Date.now().toString(36)}`,
+            label:
+                mode === "new"
+                    ? "New palette"
+                    : `${palette.label} copy`,
+            description: "",
+            colors:
+                mode === "new" ||
+                !palette.colors.length
+                    ? ["#000000", "#ffffff"]
+                    : palette.colors,
+        });
+    };
+
+    const handleSavePalette = (
+        saved: StoredPalette
+    ) => {
+        setCustomPalettes((prev) =>
+            prev.some(
+                (entry) => entry.id === saved.id
+            )
+                ? prev.map((entry) =>
+                      entry.id === saved.id
+                          ? saved
+                          : entry
+                  )
+                : [...prev, saved]
+        );
+        setPaletteId(saved.id);
+        setEditingPalette(null);
+    };
+
+    const handleDeletePalette = (id: string) => {
+        setCustomPalettes((prev) =>
+            prev.filter(
+                (entry) => entry.id !== id
+            )
+        );
+        if (paletteId === id) {
+            setPaletteId(PIXEL_PRESETS[0].id);
+        }
+        setEditingPalette(null);
+    };
+
+    const updateAdjustment = (
+        key: keyof ImageAdjustments,
+        value: number
+    ) =>
+        setAdjustments((prev) => ({
+            ...prev,
+            [key]: value,
+        }));
+
     useEffect(() => {
         return () => {
             if (
@@ -756,32 +1255,568 @@ export default function App() {
         };
     }, [resultPreview]);
 
+    const rasterFormat = RASTER_FORMATS.find(
+        (entry) => entry.id === outputFormat
+    );
+
     const handleDownloadRaster = () => {
         if (!resultPreview) return;
         const extension =
-            outputFormat === "image/gif"
-                ? "gif"
-                : "png";
+            rasterFormat?.extension ?? "png";
         const a = document.createElement("a");
         a.href = resultPreview;
         a.download = `pixel-art-${paletteId}.${extension}`;
         a.click();
     };
 
+    const svgBlob = useMemo(
+        () =>
+            vectorData
+                ? new Blob(
+                      [
+                          buildSvgFromColors({
+                              ...vectorData,
+                              mode: svgMode,
+                              cssClasses:
+                                  svgClasses,
+                          }),
+                      ],
+                      { type: "image/svg+xml" }
+                  )
+                : null,
+        [vectorData, svgMode, svgClasses]
+    );
+
     const handleDownloadSvg = () => {
-        if (!vectorData) return;
-        const svg =
-            buildSvgFromColors(vectorData);
-        if (!svg) return;
-        const blob = new Blob([svg], {
-            type: "image/svg+xml",
+        if (!svgBlob) return;
+        downloadBlob(
+            svgBlob,
+            `pixel-art-${paletteId}.svg`
+        );
+    };
+
+    const handleDownloadSheet = async () => {
+        if (resultFrames.length < 2) return;
+        const name = `pixel-art-${paletteId}-sheet`;
+        try {
+            const { blob, atlas } =
+                await buildSpriteSheet({
+                    frames: resultFrames,
+                    paletteHex:
+                        conversionSettings.paletteHex,
+                    layout: spriteLayout,
+                    name,
+                    text: buildPngText(
+                        conversionSettings,
+                        resultFrames[0].colors[0]
+                            .length,
+                        1
+                    ),
+                });
+            downloadBlob(blob, `${name}.png`);
+            downloadBlob(
+                new Blob(
+                    [
+                        JSON.stringify(
+                            atlas,
+                            null,
+                            2
+                        ),
+                    ],
+                    { type: "application/json" }
+                ),
+                `${name}.json`
+            );
+        } catch (error) {
+            console.error(
+                "[sprite-sheet]",
+                error
+            );
+            setStatus(
+                error instanceof
+                    SpriteSheetSizeError
+                    ? error.message
+                    : "Failed to build the sprite sheet."
+            );
+        }
+    };
+
+    const handleDownloadAseprite = async () => {
+        if (!resultFrames.length) return;
+        try {
+            downloadBlob(
+                await encodeAseprite({
+                    frames: resultFrames,
+                    paletteHex:
+                        conversionSettings.paletteHex,
+                }),
+                `pixel-art-${paletteId}.aseprite`
+            );
+        } catch (error) {
+            console.error("[aseprite]", error);
+            setStatus(
+                "Failed to build the Aseprite file."
+            );
+        }
+    };
+
+    const exportAnimated =
+        !!sourceGif &&
+        isAnimatedFormat(outputFormat) &&
+        resultFrames.length > 1;
+    const exportFormat = exportAnimated
+        ? rasterFormat
+        : RASTER_FORMATS[0];
+    const exportName = stripExtension(sourceName);
+    const maxExportScale = vectorData
+        ? getSafeExportPixelSize(
+              exportFormat?.id ?? "image/png",
+              vectorData.width,
+              vectorData.height,
+              exportAnimated
+                  ? resultFrames.length
+                  : 1,
+              MAX_EXPORT_SCALE
+          )
+        : MAX_EXPORT_SCALE;
+
+    const exportInWorker = (
+        raster: RasterExport
+    ) =>
+        new Promise<Blob>((resolve, reject) => {
+            const worker = workerRef.current;
+            if (!worker) {
+                reject(
+                    new Error(
+                        "The conversion worker is not running."
+                    )
+                );
+                return;
+            }
+            const jobId = exportIdRef.current + 1;
+            exportIdRef.current = jobId;
+            exportJobRef.current = {
+                jobId,
+                resolve,
+                reject,
+            };
+            worker.postMessage({
+                type: "export",
+                jobId,
+                raster,
+            } satisfies ConvertRequest);
         });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `pixel-art-${paletteId}.svg`;
-        a.click();
-        URL.revokeObjectURL(url);
+
+    const cancelExport = () => {
+        const pending = exportJobRef.current;
+        if (!pending) return;
+        exportJobRef.current = null;
+        workerRef.current?.postMessage({
+            type: "cancel-export",
+        } satisfies ConvertRequest);
+        pending.reject(
+            new ConversionCancelledError()
+        );
+    };
+
+    const handleExport = async ({
+        scales,
+        raster,
+        svg,
+        template,
+    }: ExportRequest) => {
+        if (!vectorData) return;
+        const extension =
+            exportFormat?.extension ?? "png";
+        const used = new Set<string>();
+        const entries: ZipEntry[] = [];
+        const skipped = scales.filter(
+            (scale) =>
+                raster && scale > maxExportScale
+        );
+        const addEntry = (
+            base: string,
+            suffix: string,
+            data: Blob
+        ) => {
+            let name = `${base}.${suffix}`;
+            for (let i = 2; used.has(name); i++) {
+                name = `${base}-${i}.${suffix}`;
+            }
+            used.add(name);
+            entries.push({ name, data });
+        };
+        try {
+            for (const scale of scales) {
+                const base = formatExportName(
+                    template,
+                    {
+                        name: exportName,
+                        palette: paletteId,
+                        scale,
+                    }
+                );
+                if (
+                    raster &&
+                    scale <= maxExportScale
+                ) {
+                    addEntry(
+                        base,
+                        extension,
+                        await exportInWorker({
+                            frames: exportAnimated
+                                ? resultFrames
+                                : [
+                                      {
+                                          colors: vectorData.colors,
+                                          delay: 0,
+                                      },
+                                  ],
+                            paletteHex:
+                                conversionSettings.paletteHex,
+                            text: buildPngText(
+                                conversionSettings,
+                                vectorData.width,
+                                scale
+                            ),
+                            pixelSize: scale,
+                            format:
+                                exportFormat?.id ??
+                                "image/png",
+                            loopCount:
+                                sourceGif?.loopCount ??
+                                null,
+                        })
+                    );
+                }
+                if (svg) {
+                    addEntry(
+                        base,
+                        "svg",
+                        new Blob(
+                            [
+                                buildSvgFromColors(
+                                    {
+                                        ...vectorData,
+                                        pixelSize:
+                                            scale,
+                                        mode: svgMode,
+                                        cssClasses:
+                                            svgClasses,
+                                    }
+                                ),
+                            ],
+                            {
+                                type: "image/svg+xml",
+                            }
+                        )
+                    );
+                }
+            }
+            if (entries.length === 1) {
+                const [entry] = entries;
+                downloadBlob(
+                    entry.data as Blob,
+                    entry.name
+                );
+            } else if (entries.length) {
+                downloadBlob(
+                    await createZip(entries),
+                    `${exportName}-${paletteId}.zip`
+                );
+            }
+            setShowExportDialog(false);
+            setStatus(
+                skipped.length
+                    ? `Skipped ${skipped.join("x, ")}x: the image is too large to encode at that scale.`
+                    : ""
+            );
+        } catch (error) {
+            if (
+                error instanceof
+                ConversionCancelledError
+            ) {
+                return;
+            }
+            console.error("[export]", error);
+            setStatus("Failed to export scales.");
+        }
+    };
+
+    const consoleTiles = useMemo(
+        () =>
+            showTiles && vectorData
+                ? buildConsoleTiles({
+                      colors: vectorData.colors,
+                      paletteHex:
+                          conversionSettings.paletteHex,
+                      target: tileTarget,
+                  })
+                : null,
+        [
+            showTiles,
+            vectorData,
+            conversionSettings.paletteHex,
+            tileTarget,
+        ]
+    );
+
+    const tileset = useMemo(
+        () =>
+            showTiles && vectorData
+                ? buildTileset({
+                      colors: vectorData.colors,
+                      tileSize: tilesetSize,
+                      matchFlips: tilesetFlips,
+                  })
+                : null,
+        [
+            showTiles,
+            vectorData,
+            tilesetSize,
+            tilesetFlips,
+        ]
+    );
+
+    const handleDownloadTileset = async () => {
+        if (!tileset || !vectorData) return;
+        const name = `pixel-art-${paletteId}-tileset`;
+        try {
+            downloadBlob(
+                await encodeTilesetPng(
+                    tileset,
+                    conversionSettings.paletteHex,
+                    conversionSettings.pixelSize,
+                    buildPngText(
+                        conversionSettings,
+                        vectorData.width,
+                        conversionSettings.pixelSize
+                    )
+                ),
+                `${name}.png`
+            );
+            downloadBlob(
+                new Blob(
+                    [
+                        buildTiledMap(
+                            tileset,
+                            tiledFormat,
+                            {
+                                name,
+                                image: `${name}.png`,
+                                pixelSize:
+                                    conversionSettings.pixelSize,
+                            }
+                        ),
+                    ],
+                    {
+                        type:
+                            tiledFormat === "tmx"
+                                ? "application/xml"
+                                : "application/json",
+                    }
+                ),
+                `pixel-art-${paletteId}.${tiledFormat}`
+            );
+        } catch (error) {
+            console.error("[tileset]", error);
+            setStatus(
+                "Failed to build the tileset."
+            );
+        }
+    };
+
+    const textExport = TEXT_EXPORT_FORMATS.find(
+        (entry) => entry.id === textFormat
+    );
+
+    const buildText = () =>
+        vectorData
+            ? buildTextExport({
+                  colors: vectorData.colors,
+                  pixelSize: vectorData.pixelSize,
+                  format: textFormat,
+              })
+            : null;
+
+    const handleCopyText = async () => {
+        const text = buildText();
+        if (!text) return;
+        try {
+            await navigator.clipboard.writeText(
+                text
+            );
+            setStatus(
+                `Copied ${textExport?.label} to the clipboard.`
+            );
+        } catch (error) {
+            console.error("[clipboard]", error);
+            setStatus(
+                "Clipboard access was blocked; use download instead."
+            );
+        }
+    };
+
+    const handleDownloadText = () => {
+        const text = buildText();
+        if (!text || !textExport) return;
+        downloadBlob(
+            new Blob([text], {
+                type: textExport.mimeType,
+            }),
+            `pixel-art-${paletteId}.${textExport.extension}`
+        );
+    };
+
+    const updateBatchItem = (
+        id: number,
+        patch: Partial<BatchItem>
+    ) =>
+        setBatchItems((prev) =>
+            prev.map((item) =>
+                item.id === id
+                    ? { ...item, ...patch }
+                    : item
+            )
+        );
+
+    const handleRunBatch = async () => {
+        if (!batchItems.length) return;
+        const client = new ConversionClient();
+        const entries: ZipEntry[] = [];
+        const usedNames = new Set<string>();
+        setIsBatchRunning(true);
+        setBatchZip(null);
+        setBatchItems((prev) =>
+            prev.map((item) => ({
+                ...item,
+                status: "queued",
+                message: "",
+            }))
+        );
+        try {
+            for (const item of batchItems) {
+                updateBatchItem(item.id, {
+                    status: "converting",
+                });
+                try {
+                    const source =
+                        await loadBatchSource(
+                            item.file,
+                            budgetBytes
+                        );
+                    const animated =
+                        source.kind ===
+                            "frames" &&
+                        source.gif.frames.length >
+                            1;
+                    const format: RasterFormat =
+                        animated
+                            ? isAnimatedFormat(
+                                  outputFormat
+                              )
+                                ? outputFormat
+                                : "image/gif"
+                            : "image/png";
+                    const result =
+                        await client.convert(
+                            source,
+                            {
+                                ...conversionSettings,
+                                transform:
+                                    IDENTITY_TRANSFORM,
+                                outputFormat:
+                                    format,
+                            }
+                        );
+                    if (
+                        source.kind === "bitmap"
+                    ) {
+                        source.bitmap.close();
+                    }
+                    const name = uniqueOutputName(
+                        item.file.name,
+                        usedNames
+                    );
+                    if (batchOutputs.raster) {
+                        entries.push({
+                            name: `${name}.${
+                                RASTER_FORMATS.find(
+                                    (entry) =>
+                                        entry.id ===
+                                        format
+                                )?.extension ??
+                                "png"
+                            }`,
+                            data: result.blob,
+                        });
+                    }
+                    if (batchOutputs.svg) {
+                        entries.push({
+                            name: `${name}.svg`,
+                            data: new Blob([
+                                buildSvgFromColors(
+                                    {
+                                        colors: result.colors,
+                                        width: result.width,
+                                        height: result.height,
+                                        pixelSize:
+                                            result.pixelSize,
+                                        mode: svgMode,
+                                        cssClasses:
+                                            svgClasses,
+                                    }
+                                ),
+                            ]),
+                        });
+                    }
+                    updateBatchItem(item.id, {
+                        status: "done",
+                    });
+                } catch (error) {
+                    console.error(
+                        "[batch]",
+                        error
+                    );
+                    updateBatchItem(item.id, {
+                        status: "error",
+                        message:
+                            error instanceof Error
+                                ? error.message
+                                : "Conversion failed",
+                    });
+                }
+            }
+            if (entries.length) {
+                const zip =
+                    await createZip(entries);
+                setBatchZip(zip);
+                downloadBlob(
+                    zip,
+                    `pixel-art-${paletteId}-batch.zip`
+                );
+            }
+            setStatus(
+                `Batch finished: ${entries.length} files written.`
+            );
+        } catch (error) {
+            console.error("[batch]", error);
+            setStatus("Batch conversion failed.");
+        } finally {
+            client.dispose();
+            setIsBatchRunning(false);
+        }
+    };
+
+    const handleDownloadTiles = () => {
+        if (!consoleTiles) return;
+        const { blob, fileName } =
+            buildTileExport(
+                consoleTiles,
+                tileFormat,
+                `pixel-art-${paletteId}`
+            );
+        downloadBlob(blob, fileName);
     };
 
     return (
@@ -801,22 +1836,27 @@ export default function App() {
                                     "Drop an image"}
                             </p>
                             <p className="text-xs text-white/50">
-                                PNG / JPG / GIF
+                                PNG / JPG / GIF /
+                                MP4 / WebM
                             </p>
                         </div>
                         <input
                             ref={fileInputRef}
                             type="file"
-                            accept="image/*"
+                            accept="image/*,video/*"
+                            multiple
                             className="hidden"
                             onChange={(event) => {
-                                const file =
-                                    event.target
-                                        .files?.[0];
-                                if (file)
-                                    handleFile(
-                                        file
-                                    );
+                                handleFiles(
+                                    Array.from(
+                                        event
+                                            .target
+                                            .files ??
+                                            []
+                                    )
+                                );
+                                event.target.value =
+                                    "";
                             }}
                         />
                         <Button
@@ -847,7 +1887,10 @@ export default function App() {
                                 <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                                {PIXEL_PRESETS.map(
+                                {[
+                                    ...PIXEL_PRESETS,
+                                    ...customPalettes,
+                                ].map(
                                     (preset) => (
                                         <SelectItem
                                             value={
@@ -862,9 +1905,121 @@ export default function App() {
                                         </SelectItem>
                                     )
                                 )}
+                                <SelectItem
+                                    value={
+                                        AUTO_PALETTE_ID
+                                    }>
+                                    Auto (from
+                                    image)
+                                </SelectItem>
                             </SelectContent>
                         </Select>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            title={
+                                isCustomPalette
+                                    ? "Edit palette"
+                                    : "Edit a copy"
+                            }
+                            onClick={() =>
+                                openPaletteEditor(
+                                    "edit"
+                                )
+                            }
+                            className="h-9 w-9 flex-shrink-0 rounded-xl">
+                            <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            title="New palette"
+                            onClick={() =>
+                                openPaletteEditor(
+                                    "new"
+                                )
+                            }
+                            className="h-9 w-9 flex-shrink-0 rounded-xl">
+                            <Plus className="h-4 w-4" />
+                        </Button>
                     </div>
+                    <InlineSelect
+                        label="Dither"
+                        value={ditherMode}
+                        options={DITHER_MODES}
+                        onChange={setDitherMode}
+                    />
+                    {ditherMode !== "none" && (
+                        <InlineSlider
+                            label="Strength"
+                            value={ditherStrength}
+                            unit="%"
+                            min={0}
+                            max={100}
+                            step={5}
+                            onChange={
+                                setDitherStrength
+                            }
+                        />
+                    )}
+                    {sourceGif &&
+                        isAnimatedFormat(
+                            outputFormat
+                        ) && (
+                            <InlineSlider
+                                label="Stability"
+                                value={
+                                    temporalThreshold
+                                }
+                                unit=""
+                                min={0}
+                                max={64}
+                                step={2}
+                                formatValue={(
+                                    value
+                                ) =>
+                                    value === 0
+                                        ? "Off"
+                                        : String(
+                                              value
+                                          )
+                                }
+                                onChange={
+                                    setTemporalThreshold
+                                }
+                            />
+                        )}
+                    <InlineSelect
+                        label="Match"
+                        value={distanceMetric}
+                        options={DISTANCE_METRICS}
+                        onChange={
+                            setDistanceMetric
+                        }
+                    />
+                    <InlineSelect
+                        label="Sample"
+                        value={sampleFilter}
+                        options={SAMPLE_FILTERS}
+                        onChange={setSampleFilter}
+                    />
+                    <InlineSelect
+                        label="Outline"
+                        value={outlineMode}
+                        options={OUTLINE_MODES}
+                        onChange={setOutlineMode}
+                    />
+                    <InlineSlider
+                        label="Alpha cut"
+                        value={alphaThreshold}
+                        unit=""
+                        min={0}
+                        max={255}
+                        step={1}
+                        onChange={
+                            setAlphaThreshold
+                        }
+                    />
                     <InlineSlider
                         label="Pixel"
                         value={pixelSize}
@@ -883,6 +2038,92 @@ export default function App() {
                         step={4}
                         onChange={setResolution}
                     />
+                    <Button
+                        variant="ghost"
+                        onClick={() =>
+                            setShowCropEditor(
+                                true
+                            )
+                        }
+                        disabled={!sourcePreview}
+                        className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                            isIdentityTransform(
+                                sourceTransform
+                            )
+                                ? "border-white/10"
+                                : "border-emerald-400/40 text-emerald-200"
+                        }`}>
+                        <Crop className="h-4 w-4" />
+                        Crop
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={() =>
+                            setShowAdjustments(
+                                (prev) => !prev
+                            )
+                        }
+                        className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                            hasAdjustments(
+                                adjustments
+                            )
+                                ? "border-emerald-400/40 text-emerald-200"
+                                : "border-white/10"
+                        }`}>
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Adjust
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={() =>
+                            setShowTiles(
+                                (prev) => !prev
+                            )
+                        }
+                        className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                            showTiles
+                                ? "border-emerald-400/40 text-emerald-200"
+                                : "border-white/10"
+                        }`}>
+                        <Grid3x3 className="h-4 w-4" />
+                        Tiles
+                    </Button>
+                    <InlineSelect
+                        label="Memory"
+                        value={decodeBudget}
+                        options={DECODE_BUDGETS}
+                        onChange={setDecodeBudget}
+                    />
+                    {sourceGif && (
+                        <InlineSelect
+                            label="Format"
+                            value={outputFormat}
+                            options={
+                                RASTER_FORMATS
+                            }
+                            onChange={
+                                setOutputFormat
+                            }
+                        />
+                    )}
+                    {sourceGif && (
+                        <InlineSelect
+                            label="Sheet"
+                            value={spriteLayout}
+                            options={
+                                SPRITE_LAYOUTS
+                            }
+                            onChange={
+                                setSpriteLayout
+                            }
+                        />
+                    )}
+                    <InlineSelect
+                        label="SVG"
+                        value={svgMode}
+                        options={SVG_MODES}
+                        onChange={setSvgMode}
+                    />
                     <div className="flex items-center gap-2">
                         <Button
                             variant="ghost"
@@ -894,34 +2135,761 @@ export default function App() {
                             }
                             className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
                             <ArrowDownToLine className="h-4 w-4" />
-                            {outputFormat ===
-                            "image/gif"
-                                ? "GIF"
-                                : "PNG"}
+                            {rasterFormat?.label ??
+                                "PNG"}
                         </Button>
                         <Button
                             variant="ghost"
                             onClick={
                                 handleDownloadSvg
                             }
-                            disabled={!vectorData}
+                            disabled={!svgBlob}
+                            title={
+                                svgBlob
+                                    ? `Estimated size ${formatBytes(
+                                          svgBlob.size
+                                      )}`
+                                    : undefined
+                            }
                             className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
                             <ArrowDownToLine className="h-4 w-4" />
                             SVG
+                            {svgBlob && (
+                                <span className="normal-case text-white/50">
+                                    {formatBytes(
+                                        svgBlob.size
+                                    )}
+                                </span>
+                            )}
                         </Button>
-                    </div>
-                </div>
-                {status && (
-                    <div className="inline-flex items-center gap-2 self-start rounded-full border border-emerald-400/40 bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-200">
-                        {status}
-                    </div>
-                )}
-                <ResultPreview
-                    preview={resultPreview}
-                    vectorData={vectorData}
-                    processing={isProcessing}
-                />
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleDownloadAseprite
+                            }
+                            disabled={
+                                !resultFrames.length
+                            }
+                            title="Indexed Aseprite file at 1x scale"
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <ArrowDownToLine className="h-4 w-4" />
+                            ASE
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setShowExportDialog(
+                                    true
+                                )
+                            }
+                            disabled={!vectorData}
+                            title="Export several scales at once"
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <Scaling className="h-4 w-4" />
+                            Scales
+                        </Button>
+                        {sourceGif && (
+                            <Button
+                                variant="ghost"
+                                onClick={
+                                    handleDownloadSheet
+                                }
+                                disabled={
+                                    resultFrames.length <
+                                    2
+                                }
+                                title="Sprite sheet PNG with a JSON atlas at 1x scale"
+                                className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                                <LayoutGrid className="h-4 w-4" />
+                                Sheet
+                            </Button>
+                        )}
+                        {svgMode !== "cells" && (
+                            <Button
+                                variant="ghost"
+                                title="Write palette colors as CSS classes"
+                                onClick={() =>
+                                    setSvgClasses(
+                                        (prev) =>
+                                            !prev
+                                    )
+                                }
+                                className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                    svgClasses
+                                        ? "border-emerald-400/40 text-emerald-200"
+                                        : "border-white/10"
+                                }`}>
+                                CSS
+                            </Button>
+                        )}
+                    </div>
+                    <InlineSelect
+                        label="Text"
+                        value={textFormat}
+                        options={
+                            TEXT_EXPORT_FORMATS
+                        }
+                        onChange={setTextFormat}
+                    />
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleCopyText
+                            }
+                            disabled={!vectorData}
+                            title="Copy to clipboard"
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <Copy className="h-4 w-4" />
+                            Copy
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleDownloadText
+                            }
+                            disabled={!vectorData}
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <ArrowDownToLine className="h-4 w-4" />
+                            {
+                                textExport?.extension
+                            }
+                        </Button>
+                    </div>
+                </div>
+                {batchItems.length > 0 && (
+                    <BatchPanel
+                        items={batchItems}
+                        running={isBatchRunning}
+                        outputs={batchOutputs}
+                        zip={batchZip}
+                        onToggleOutput={(
+                            output
+                        ) =>
+                            setBatchOutputs(
+                                (prev) => ({
+                                    ...prev,
+                                    [output]:
+                                        !prev[
+                                            output
+                                        ],
+                                })
+                            )
+                        }
+                        onStart={handleRunBatch}
+                        onDownload={() =>
+                            batchZip &&
+                            downloadBlob(
+                                batchZip,
+                                `pixel-art-${paletteId}-batch.zip`
+                            )
+                        }
+                        onClear={() => {
+                            setBatchItems([]);
+                            setBatchZip(null);
+                        }}
+                    />
+                )}
+                {sourceVideo &&
+                    videoTrimDraft && (
+                        <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                            <InlineSlider
+                                label="Start"
+                                value={
+                                    videoTrimDraft.start
+                                }
+                                unit="s"
+                                min={0}
+                                max={
+                                    sourceVideo.duration
+                                }
+                                step={0.1}
+                                formatValue={(
+                                    value
+                                ) =>
+                                    value.toFixed(
+                                        1
+                                    )
+                                }
+                                onChange={(
+                                    value
+                                ) =>
+                                    setVideoTrimDraft(
+                                        {
+                                            ...videoTrimDraft,
+                                            start: Math.min(
+                                                value,
+                                                videoTrimDraft.end
+                                            ),
+                                        }
+                                    )
+                                }
+                            />
+                            <InlineSlider
+                                label="End"
+                                value={
+                                    videoTrimDraft.end
+                                }
+                                unit="s"
+                                min={0}
+                                max={
+                                    sourceVideo.duration
+                                }
+                                step={0.1}
+                                formatValue={(
+                                    value
+                                ) =>
+                                    value.toFixed(
+                                        1
+                                    )
+                                }
+                                onChange={(
+                                    value
+                                ) =>
+                                    setVideoTrimDraft(
+                                        {
+                                            ...videoTrimDraft,
+                                            end: Math.max(
+                                                value,
+                                                videoTrimDraft.start
+                                            ),
+                                        }
+                                    )
+                                }
+                            />
+                            <InlineSlider
+                                label="FPS"
+                                value={
+                                    videoTrimDraft.fps
+                                }
+                                unit=""
+                                min={1}
+                                max={30}
+                                step={1}
+                                onChange={(
+                                    value
+                                ) =>
+                                    setVideoTrimDraft(
+                                        {
+                                            ...videoTrimDraft,
+                                            fps: value,
+                                        }
+                                    )
+                                }
+                            />
+                            <InlineSlider
+                                label="Max frames"
+                                value={
+                                    videoTrimDraft.maxFrames
+                                }
+                                unit=""
+                                min={1}
+                                max={
+                                    MAX_VIDEO_FRAME_CAP
+                                }
+                                step={1}
+                                onChange={(
+                                    value
+                                ) =>
+                                    setVideoTrimDraft(
+                                        {
+                                            ...videoTrimDraft,
+                                            maxFrames:
+                                                value,
+                                        }
+                                    )
+                                }
+                            />
+                            <span className="font-mono text-xs text-white/60">
+                                {
+                                    getVideoFrameTimes(
+                                        videoTrimDraft,
+                                        sourceVideo.duration
+                                    ).length
+                                }{" "}
+                                frames ·{" "}
+                                {
+                                    sourceVideo.width
+                                }
+                                x
+                                {
+                                    sourceVideo.height
+                                }
+                            </span>
+                            <Button
+                                variant="ghost"
+                                onClick={() =>
+                                    setVideoTrim(
+                                        videoTrimDraft
+                                    )
+                                }
+                                disabled={
+                                    isVideoDecoding ||
+                                    videoTrimDraft ===
+                                        videoTrim
+                                }
+                                className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                                {isVideoDecoding ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Film className="h-4 w-4" />
+                                )}
+                                Decode
+                            </Button>
+                        </div>
+                    )}
+                {parsedGif && gifTimeline && (
+                    <GifTimelinePanel
+                        gif={parsedGif}
+                        timeline={gifTimeline}
+                        onChange={setGifTimeline}
+                    />
+                )}
+                {paletteId ===
+                    AUTO_PALETTE_ID && (
+                    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                        <InlineSelect
+                            label="Method"
+                            value={autoAlgorithm}
+                            options={
+                                PALETTE_ALGORITHMS
+                            }
+                            onChange={
+                                setAutoAlgorithm
+                            }
+                        />
+                        <InlineSlider
+                            label="Colors"
+                            value={autoColorCount}
+                            unit=""
+                            min={MIN_AUTO_COLORS}
+                            max={MAX_AUTO_COLORS}
+                            step={1}
+                            onChange={
+                                setAutoColorCount
+                            }
+                        />
+                        <PaletteSwatches
+                            colors={
+                                autoColors ?? []
+                            }
+                            className="flex-1 min-w-[200px]"
+                        />
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleLockAutoPalette
+                            }
+                            disabled={
+                                !autoColors?.length
+                            }
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <Lock className="h-4 w-4" />
+                            Lock palette
+                        </Button>
+                    </div>
+                )}
+                {outlineMode !== "none" && (
+                    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                        <div className="flex flex-1 min-w-[200px] items-center gap-3">
+                            <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                                Line
+                            </span>
+                            <PaletteSwatches
+                                colors={
+                                    palette.colors
+                                }
+                                selected={
+                                    outlineSelective
+                                        ? undefined
+                                        : resolvedOutlineColor
+                                }
+                                onSelect={(
+                                    hex
+                                ) => {
+                                    setOutlineColor(
+                                        hex
+                                    );
+                                    setOutlineSelective(
+                                        false
+                                    );
+                                }}
+                            />
+                        </div>
+                        <InlineSlider
+                            label="Edges"
+                            value={outlineEdge}
+                            unit=""
+                            min={0}
+                            max={255}
+                            step={1}
+                            formatValue={(
+                                value
+                            ) =>
+                                value === 0
+                                    ? "Alpha"
+                                    : String(
+                                          value
+                                      )
+                            }
+                            onChange={
+                                setOutlineEdge
+                            }
+                        />
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setOutlineSelective(
+                                    (prev) =>
+                                        !prev
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                outlineSelective
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            Selective
+                        </Button>
+                    </div>
+                )}
+                {showAdjustments && (
+                    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                        <InlineSlider
+                            label="Brightness"
+                            value={
+                                adjustments.brightness
+                            }
+                            unit=""
+                            min={-100}
+                            max={100}
+                            step={1}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "brightness",
+                                    value
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Contrast"
+                            value={
+                                adjustments.contrast
+                            }
+                            unit=""
+                            min={-100}
+                            max={100}
+                            step={1}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "contrast",
+                                    value
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Saturation"
+                            value={
+                                adjustments.saturation
+                            }
+                            unit=""
+                            min={-100}
+                            max={100}
+                            step={1}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "saturation",
+                                    value
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Gamma"
+                            value={
+                                adjustments.gamma
+                            }
+                            unit=""
+                            min={0.2}
+                            max={3}
+                            step={0.05}
+                            formatValue={(
+                                value
+                            ) => value.toFixed(2)}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "gamma",
+                                    Math.round(
+                                        value *
+                                            100
+                                    ) / 100
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Hue"
+                            value={
+                                adjustments.hue
+                            }
+                            unit="°"
+                            min={-180}
+                            max={180}
+                            step={1}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "hue",
+                                    value
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Sharpen"
+                            value={
+                                adjustments.sharpen
+                            }
+                            unit="%"
+                            min={0}
+                            max={100}
+                            step={5}
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "sharpen",
+                                    value
+                                )
+                            }
+                        />
+                        <InlineSlider
+                            label="Posterize"
+                            value={
+                                adjustments.posterize
+                            }
+                            unit=""
+                            min={0}
+                            max={32}
+                            step={1}
+                            formatValue={(
+                                value
+                            ) =>
+                                value < 2
+                                    ? "Off"
+                                    : String(
+                                          value
+                                      )
+                            }
+                            onChange={(value) =>
+                                updateAdjustment(
+                                    "posterize",
+                                    value
+                                )
+                            }
+                        />
+                        <HistogramChart
+                            histogram={histogram}
+                            palette={
+                                palette.colors
+                            }
+                            className="flex-1 min-w-[240px]"
+                        />
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setAdjustments(
+                                    DEFAULT_ADJUSTMENTS
+                                )
+                            }
+                            disabled={
+                                !hasAdjustments(
+                                    adjustments
+                                )
+                            }
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <RotateCcw className="h-4 w-4" />
+                            Reset
+                        </Button>
+                    </div>
+                )}
+                {showTiles && (
+                    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                        <InlineSelect
+                            label="Hardware"
+                            value={tileTarget}
+                            options={TILE_TARGETS}
+                            onChange={
+                                setTileTarget
+                            }
+                        />
+                        <InlineSelect
+                            label="Output"
+                            value={tileFormat}
+                            options={
+                                TILE_EXPORT_FORMATS
+                            }
+                            onChange={
+                                setTileFormat
+                            }
+                        />
+                        <span className="font-mono text-xs text-white/60">
+                            {consoleTiles
+                                ? `${consoleTiles.tiles.length} unique tiles · ${consoleTiles.mapWidth}x${consoleTiles.mapHeight} map`
+                                : "--"}
+                        </span>
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleDownloadTiles
+                            }
+                            disabled={
+                                !consoleTiles
+                            }
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <ArrowDownToLine className="h-4 w-4" />
+                            Tiles
+                        </Button>
+                        {consoleTiles?.warnings
+                            .length ? (
+                            <ul className="w-full space-y-1 text-xs text-amber-200">
+                                {consoleTiles.warnings.map(
+                                    (warning) => (
+                                        <li
+                                            key={
+                                                warning
+                                            }>
+                                            {
+                                                warning
+                                            }
+                                        </li>
+                                    )
+                                )}
+                            </ul>
+                        ) : null}
+                    </div>
+                )}
+                {showTiles && (
+                    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:flex-row md:flex-wrap md:items-center md:px-5">
+                        <InlineSlider
+                            label="Tile"
+                            value={tilesetSize}
+                            unit="px"
+                            min={4}
+                            max={64}
+                            step={4}
+                            onChange={
+                                setTilesetSize
+                            }
+                        />
+                        <Button
+                            variant="ghost"
+                            title="Merge horizontally and vertically flipped duplicates"
+                            onClick={() =>
+                                setTilesetFlips(
+                                    (prev) =>
+                                        !prev
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                tilesetFlips
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            Flips
+                        </Button>
+                        <InlineSelect
+                            label="Map"
+                            value={tiledFormat}
+                            options={
+                                TILED_MAP_FORMATS
+                            }
+                            onChange={
+                                setTiledFormat
+                            }
+                        />
+                        <span className="font-mono text-xs text-white/60">
+                            {tileset
+                                ? `${tileset.tiles.length} unique tiles · ${tileset.mapWidth}x${tileset.mapHeight} map`
+                                : "--"}
+                        </span>
+                        <Button
+                            variant="ghost"
+                            onClick={
+                                handleDownloadTileset
+                            }
+                            disabled={!tileset}
+                            className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                            <ArrowDownToLine className="h-4 w-4" />
+                            Tileset
+                        </Button>
+                    </div>
+                )}
+                {status && (
+                    <div className="inline-flex items-center gap-2 self-start rounded-full border border-emerald-400/40 bg-emerald-500/10 px-3 py-1 text-xs font-medium text-emerald-200">
+                        {status}
+                    </div>
+                )}
+                <ResultPreview
+                    preview={resultPreview}
+                    vectorData={vectorData}
+                    processing={isProcessing}
+                />
             </div>
+            {editingPalette && (
+                <PaletteEditor
+                    initial={editingPalette}
+                    canDelete={customPalettes.some(
+                        (entry) =>
+                            entry.id ===
+                            editingPalette.id
+                    )}
+                    onSave={handleSavePalette}
+                    onDelete={() =>
+                        handleDeletePalette(
+                            editingPalette.id
+                        )
+                    }
+                    onClose={() =>
+                        setEditingPalette(null)
+                    }
+                />
+            )}
+            {showExportDialog && vectorData && (
+                <ExportDialog
+                    width={vectorData.width}
+                    height={vectorData.height}
+                    name={exportName}
+                    paletteId={paletteId}
+                    rasterLabel={
+                        exportFormat?.label ??
+                        "PNG"
+                    }
+                    rasterExtension={
+                        exportFormat?.extension ??
+                        "png"
+                    }
+                    maxRasterScale={
+                        maxExportScale
+                    }
+                    onExport={handleExport}
+                    onClose={() => {
+                        cancelExport();
+                        setShowExportDialog(
+                            false
+                        );
+                    }}
+                />
+            )}
+            {showCropEditor && sourcePreview && (
+                <CropEditor
+                    src={sourcePreview}
+                    initial={sourceTransform}
+                    onApply={(transform) => {
+                        setSourceTransform(
+                            transform
+                        );
+                        setShowCropEditor(false);
+                    }}
+                    onClose={() =>
+                        setShowCropEditor(false)
+                    }
+                />
+            )}
             {showIntro && (
                 <IntroModal
                     onClose={() =>
@@ -940,6 +2908,7 @@ function InlineSlider({
     min,
     max,
     step,
+    formatValue,
     onChange,
 }: {
     label: string;
@@ -948,6 +2917,7 @@ function InlineSlider({
     min: number;
     max: number;
     step: number;
+    formatValue?: (val: number) => string;
     onChange: (val: number) => void;
 }) {
     return (
@@ -955,7 +2925,9 @@ function InlineSlider({
             <div className="flex items-center justify-between text-xs uppercase tracking-[0.25em] text-white/50">
                 <span>{label}</span>
                 <span className="text-white/80">
-                    {value}
+                    {formatValue
+                        ? formatValue(value)
+                        : value}
                     {unit}
                 </span>
             </div>
@@ -972,6 +2944,44 @@ function InlineSlider({
     );
 }
 
+function InlineSelect<T extends string>({
+    label,
+    value,
+    options,
+    onChange,
+}: {
+    label: string;
+    value: T;
+    options: { id: T; label: string }[];
+    onChange: (val: T) => void;
+}) {
+    return (
+        <div className="flex min-w-[200px] items-center gap-3 rounded-2xl border border-white/10 px-4 py-3">
+            <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                {label}
+            </span>
+            <Select
+                value={value}
+                onValueChange={(val) =>
+                    onChange(val as T)
+                }>
+                <SelectTrigger className="w-[180px] rounded-xl bg-white/5">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {options.map((option) => (
+                        <SelectItem
+                            value={option.id}
+                            key={option.id}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
+
 function ResultPreview({
     preview,
     vectorData,
@@ -1026,457 +3036,152 @@ function ResultPreview({
     );
 }
 
-function buildSvgFromColors({
-    colors,
-    width,
-    height,
-    pixelSize,
-}: {
-    colors: string[][];
-    width: number;
-    height: number;
-    pixelSize: number;
-}) {
-    const svgWidth = width * pixelSize;
-    const svgHeight = height * pixelSize;
-    const rects: string[] = [];
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            const color = colors[y]?.[x];
-            if (!color) continue;
-            rects.push(
-                `<rect x="${x * pixelSize}" y="${
-                    y * pixelSize
-                }" width="${pixelSize}" height="${pixelSize}" fill="${color}" />`
-            );
-        }
-    }
-    return `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}" shape-rendering="crispEdges">
-  ${rects.join("\n  ")}
-</svg>`;
-}
-
-function quantizeSampleCanvas({
-    sampleCanvas,
-    sampleCtx,
-    paletteData,
-    pixelSize,
-    includeOutputCanvas = true,
-}: {
-    sampleCanvas: HTMLCanvasElement;
-    sampleCtx: CanvasRenderingContext2D;
-    paletteData: PaletteEntry[];
-    pixelSize: number;
-    includeOutputCanvas?: boolean;
-}) {
-    const sampleWidth = sampleCanvas.width;
-    const sampleHeight = sampleCanvas.height;
-    const { data } = sampleCtx.getImageData(
-        0,
-        0,
-        sampleWidth,
-        sampleHeight
-    );
-    const quantized = new Uint8ClampedArray(
-        data.length
-    );
-    const colorGrid: string[][] = Array.from(
-        { length: sampleHeight },
-        () => new Array<string>(sampleWidth)
-    );
-
-    for (let y = 0; y < sampleHeight; y++) {
-        for (let x = 0; x < sampleWidth; x++) {
-            const index =
-                (y * sampleWidth + x) * 4;
-            const r = data[index];
-            const g = data[index + 1];
-            const b = data[index + 2];
-            let closest = paletteData[0];
-            let best = Number.MAX_VALUE;
-            for (const entry of paletteData) {
-                const { rgb } = entry;
-                const distance =
-                    (rgb.r - r) ** 2 +
-                    (rgb.g - g) ** 2 +
-                    (rgb.b - b) ** 2;
-                if (distance < best) {
-                    best = distance;
-                    closest = entry;
+function loadImagePixels(
+    src: string,
+    maxPixels: number
+) {
+    return new Promise<ImageData>(
+        (resolve, reject) => {
+            const image = new Image();
+            image.crossOrigin = "anonymous";
+            image.onload = () => {
+                const scale = Math.min(
+                    1,
+                    Math.sqrt(
+                        maxPixels /
+                            Math.max(
+                                1,
+                                image.width *
+                                    image.height
+                            )
+                    )
+                );
+                const canvas =
+                    document.createElement(
+                        "canvas"
+                    );
+                canvas.width = Math.max(
+                    1,
+                    Math.round(
+                        image.width * scale
+                    )
+                );
+                canvas.height = Math.max(
+                    1,
+                    Math.round(
+                        image.height * scale
+                    )
+                );
+                const ctx = canvas.getContext(
+                    "2d",
+                    {
+                        willReadFrequently: true,
+                    }
+                );
+                if (!ctx) {
+                    reject(
+                        new Error(
+                            "Unable to create a sample canvas."
+                        )
+                    );
+                    return;
                 }
-            }
-            quantized[index] = closest.rgb.r;
-            quantized[index + 1] = closest.rgb.g;
-            quantized[index + 2] = closest.rgb.b;
-            quantized[index + 3] = 255;
-            colorGrid[y][x] = closest.hex;
+                ctx.drawImage(
+                    image,
+                    0,
+                    0,
+                    canvas.width,
+                    canvas.height
+                );
+                resolve(
+                    ctx.getImageData(
+                        0,
+                        0,
+                        canvas.width,
+                        canvas.height
+                    )
+                );
+            };
+            image.onerror = (event) =>
+                reject(event);
+            image.src = src;
         }
-    }
-
-    sampleCtx.putImageData(
-        new ImageData(
-            quantized,
-            sampleWidth,
-            sampleHeight
-        ),
-        0,
-        0
     );
-
-    let outputCanvas: HTMLCanvasElement | null =
-        null;
-    if (includeOutputCanvas) {
-        outputCanvas =
-            document.createElement("canvas");
-        outputCanvas.width =
-            sampleWidth * pixelSize;
-        outputCanvas.height =
-            sampleHeight * pixelSize;
-        const outputCtx =
-            outputCanvas.getContext("2d");
-        if (!outputCtx) {
-            throw new Error(
-                "Unable to create export canvas."
-            );
-        }
-        outputCtx.imageSmoothingEnabled = false;
-        outputCtx.drawImage(
-            sampleCanvas,
-            0,
-            0,
-            sampleWidth,
-            sampleHeight,
-            0,
-            0,
-            outputCanvas.width,
-            outputCanvas.height
-        );
-    }
-
-    return {
-        colorGrid,
-        sampleWidth,
-        sampleHeight,
-        outputCanvas,
-    };
 }
 
-function quantizeFramePixels({
-    framePixels,
-    sourceWidth,
-    sourceHeight,
-    sampleWidth,
-    sampleHeight,
-    paletteData,
-}: {
-    framePixels: Uint8ClampedArray;
-    sourceWidth: number;
-    sourceHeight: number;
-    sampleWidth: number;
-    sampleHeight: number;
-    paletteData: PaletteEntry[];
-}) {
-    const colorGrid: string[][] = Array.from(
-        { length: sampleHeight },
-        () => new Array<string>(sampleWidth)
-    );
-    const clamp = (value: number, max: number) =>
-        Math.min(max - 1, Math.max(0, value));
-    for (let y = 0; y < sampleHeight; y++) {
-        const sourceY = clamp(
-            Math.floor(
-                ((y + 0.5) / sampleHeight) *
-                    sourceHeight
+async function loadBatchSource(
+    file: File,
+    budgetBytes: number
+): Promise<ConversionSource> {
+    if (isVideoFile(file)) {
+        const { duration } =
+            await readVideoInfo(file);
+        return {
+            kind: "frames",
+            gif: await extractVideoSource(
+                file,
+                getDefaultVideoTrim(duration),
+                { budgetBytes }
             ),
-            sourceHeight
-        );
-        for (let x = 0; x < sampleWidth; x++) {
-            const sourceX = clamp(
-                Math.floor(
-                    ((x + 0.5) / sampleWidth) *
-                        sourceWidth
-                ),
-                sourceWidth
-            );
-            const index =
-                (sourceY * sourceWidth +
-                    sourceX) *
-                4;
-            const r = framePixels[index];
-            const g = framePixels[index + 1];
-            const b = framePixels[index + 2];
-            let closest = paletteData[0];
-            let best = Number.MAX_VALUE;
-            for (const entry of paletteData) {
-                const { rgb } = entry;
-                const distance =
-                    (rgb.r - r) ** 2 +
-                    (rgb.g - g) ** 2 +
-                    (rgb.b - b) ** 2;
-                if (distance < best) {
-                    best = distance;
-                    closest = entry;
-                }
-            }
-            colorGrid[y][x] = closest.hex;
-        }
-    }
-    return colorGrid;
-}
-
-function clampFrameDelay(delay: number) {
-    if (!Number.isFinite(delay) || delay <= 0) {
-        return 6;
-    }
-    return Math.max(
-        1,
-        Math.min(65535, Math.round(delay))
-    );
-}
-
-function getSafeGifPixelSize(
-    sampleWidth: number,
-    sampleHeight: number,
-    frameCount: number,
-    desiredPixelSize: number
-) {
-    const frameArea = sampleWidth * sampleHeight;
-    if (
-        frameArea <= 0 ||
-        !Number.isFinite(frameArea) ||
-        frameCount <= 0
-    ) {
-        return Math.max(1, desiredPixelSize);
-    }
-    const maxPixelSize = Math.floor(
-        Math.sqrt(
-            MAX_GIF_PIXELS /
-                Math.max(
-                    frameArea * frameCount,
-                    1
-                )
-        )
-    );
-    if (
-        !Number.isFinite(maxPixelSize) ||
-        maxPixelSize <= 0
-    ) {
-        return 1;
+        };
     }
-    return Math.max(
-        1,
-        Math.min(desiredPixelSize, maxPixelSize)
-    );
-}
-
-function normalizeLoopCount(
-    loopCount: number | null
-) {
     if (
-        typeof loopCount !== "number" ||
-        !Number.isFinite(loopCount) ||
-        loopCount < 0
+        file.type === "image/gif" ||
+        file.name.toLowerCase().endsWith(".gif")
     ) {
-        return 0;
-    }
-    return Math.min(65535, Math.round(loopCount));
-}
-
-function buildPaletteLookup(palette: string[]) {
-    const normalizedPalette = Array.from(
-        new Set(
-            (palette.length
-                ? palette
-                : ["#000000", "#ffffff"]
-            ).map((hex) => hex.toLowerCase())
-        )
-    );
-    if (!normalizedPalette.length) {
-        normalizedPalette.push(
-            "#000000",
-            "#ffffff"
-        );
-    } else if (normalizedPalette.length === 1) {
-        normalizedPalette.push(
-            normalizedPalette[0]
-        );
-    }
-    const cappedLength = Math.min(
-        256,
-        normalizedPalette.length
-    );
-    const targetSize = Math.max(
-        2,
-        1 <<
-            Math.ceil(
-                Math.log2(
-                    Math.max(2, cappedLength)
-                )
-            )
-    );
-    const fallbackHex =
-        normalizedPalette[
-            normalizedPalette.length - 1
-        ];
-    const paddedPalette = normalizedPalette.slice(
-        0,
-        targetSize
-    );
-    while (paddedPalette.length < targetSize) {
-        paddedPalette.push(fallbackHex);
-    }
-    const paletteColors = paddedPalette.map(
-        (hex) => {
-            const { r, g, b } = hexToRgb(hex);
-            return (r << 16) | (g << 8) | b;
-        }
-    );
-    const colorIndexMap = new Map<
-        string,
-        number
-    >();
-    paddedPalette.forEach((hex, index) => {
-        if (!colorIndexMap.has(hex)) {
-            colorIndexMap.set(hex, index);
-        }
-    });
-    const fallbackIndex =
-        colorIndexMap.get(fallbackHex) ?? 0;
-    return {
-        paletteColors,
-        colorIndexMap,
-        fallbackIndex,
-    };
-}
-
-function colorGridToIndexedPixels({
-    colors,
-    pixelSize,
-    colorIndexMap,
-    fallbackIndex,
-}: {
-    colors: string[][];
-    pixelSize: number;
-    colorIndexMap: Map<string, number>;
-    fallbackIndex: number;
-}) {
-    const sampleHeight = colors.length;
-    const sampleWidth = colors[0]?.length ?? 0;
-    if (sampleHeight === 0 || sampleWidth === 0) {
-        throw new Error("Color grid is empty.");
-    }
-    const finalWidth = sampleWidth * pixelSize;
-    const finalHeight = sampleHeight * pixelSize;
-    const indexedPixels = new Uint8Array(
-        finalWidth * finalHeight
-    );
-    for (let y = 0; y < sampleHeight; y++) {
-        for (let dy = 0; dy < pixelSize; dy++) {
-            const row = y * pixelSize + dy;
-            const rowOffset = row * finalWidth;
-            for (
-                let x = 0;
-                x < sampleWidth;
-                x++
+        try {
+            return {
+                kind: "frames",
+                gif: extractGifSource(
+                    new Uint8Array(
+                        await file.arrayBuffer()
+                    ),
+                    budgetBytes
+                ),
+            };
+        } catch (error) {
+            if (
+                error instanceof DecodeBudgetError
             ) {
-                const colorHex =
-                    colors[y]?.[
-                        x
-                    ]?.toLowerCase() ?? "";
-                const paletteIndex =
-                    colorIndexMap.get(colorHex) ??
-                    fallbackIndex;
-                for (
-                    let dx = 0;
-                    dx < pixelSize;
-                    dx++
-                ) {
-                    const column =
-                        x * pixelSize + dx;
-                    indexedPixels[
-                        rowOffset + column
-                    ] = paletteIndex;
-                }
+                throw error;
             }
+            console.error("[gif-parse]", error);
         }
     }
-    return indexedPixels;
+    return loadStillSource(file);
 }
 
-function extractGifSource(
-    bytes: Uint8Array
-): GifSource {
-    const reader = new GifReader(bytes);
-    const width = reader.width;
-    const height = reader.height;
-    const loopCount = reader.loopCount();
-    const frameCount = reader.numFrames();
-    if (frameCount === 0) {
-        throw new Error("GIF contains no frames");
-    }
-    const canvasState = new Uint8ClampedArray(
-        width * height * 4
-    );
-    const frames: GifFrameData[] = [];
-    for (let i = 0; i < frameCount; i++) {
-        const frameInfo = reader.frameInfo(i);
-        let restoreBuffer: Uint8ClampedArray | null =
-            null;
-        if (frameInfo.disposal === 3) {
-            restoreBuffer = canvasState.slice();
-        }
-        reader.decodeAndBlitFrameRGBA(
-            i,
-            canvasState
-        );
-        frames.push({
-            pixels: new Uint8ClampedArray(
-                canvasState
-            ),
-            delay: frameInfo.delay ?? 0,
-        });
-        if (frameInfo.disposal === 2) {
-            clearFrameRegion(
-                canvasState,
-                width,
-                frameInfo
-            );
-        } else if (
-            frameInfo.disposal === 3 &&
-            restoreBuffer
-        ) {
-            canvasState.set(restoreBuffer);
-        }
-    }
-    return {
-        width,
-        height,
-        loopCount,
-        frames,
-    };
-}
-
-function clearFrameRegion(
-    buffer: Uint8ClampedArray,
-    canvasWidth: number,
-    frame: {
-        x: number;
-        y: number;
-        width: number;
-        height: number;
-    }
-) {
-    for (let row = 0; row < frame.height; row++) {
-        const start =
-            ((frame.y + row) * canvasWidth +
-                frame.x) *
-            4;
-        buffer.fill(
-            0,
-            start,
-            start + frame.width * 4
+function loadStillSource(
+    file: File
+): Promise<ConversionSource> {
+    if (typeof OffscreenCanvas !== "undefined") {
+        return createImageBitmap(file).then(
+            (bitmap) => ({
+                kind: "bitmap",
+                bitmap,
+            })
         );
     }
+    const url = URL.createObjectURL(file);
+    return loadImagePixels(
+        url,
+        Number.POSITIVE_INFINITY
+    )
+        .then((imageData): ConversionSource => ({
+            kind: "frames",
+            gif: {
+                width: imageData.width,
+                height: imageData.height,
+                loopCount: null,
+                frames: [
+                    {
+                        pixels: imageData.data,
+                        delay: 0,
+                    },
+                ],
+            },
+        }))
+        .finally(() => URL.revokeObjectURL(url));
 }
 
 function IntroModal({
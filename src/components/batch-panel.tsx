@@ -0,0 +1,137 @@
+import {
+    ArrowDownToLine,
+    Loader2,
+    Play,
+    X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type {
+    BatchItem,
+    BatchStatus,
+} from "@/lib/batch";
+
+const STATUS_STYLES: Record<BatchStatus, string> =
+    {
+        queued: "text-white/50",
+        converting: "text-sky-200",
+        done: "text-emerald-200",
+        error: "text-rose-300",
+    };
+
+export function BatchPanel({
+    items,
+    running,
+    outputs,
+    zip,
+    onToggleOutput,
+    onStart,
+    onDownload,
+    onClear,
+}: {
+    items: BatchItem[];
+    running: boolean;
+    outputs: { raster: boolean; svg: boolean };
+    zip: Blob | null;
+    onToggleOutput: (
+        output: "raster" | "svg"
+    ) => void;
+    onStart: () => void;
+    onDownload: () => void;
+    onClear: () => void;
+}) {
+    const finished = items.filter(
+        (item) =>
+            item.status === "done" ||
+            item.status === "error"
+    ).length;
+
+    return (
+        <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:px-5">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                    Batch
+                </span>
+                <span className="font-mono text-xs text-white/60">
+                    {finished}/{items.length}{" "}
+                    files
+                </span>
+                {(["raster", "svg"] as const).map(
+                    (output) => (
+                        <Button
+                            key={output}
+                            variant="ghost"
+                            disabled={running}
+                            onClick={() =>
+                                onToggleOutput(
+                                    output
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                outputs[output]
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            {output === "raster"
+                                ? "Raster"
+                                : "SVG"}
+                        </Button>
+                    )
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                    <Button
+                        variant="ghost"
+                        onClick={onStart}
+                        disabled={
+                            running ||
+                            (!outputs.raster &&
+                                !outputs.svg)
+                        }
+                        className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                        {running ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <Play className="h-4 w-4" />
+                        )}
+                        Convert all
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={onDownload}
+                        disabled={running || !zip}
+                        className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                        <ArrowDownToLine className="h-4 w-4" />
+                        ZIP
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Clear batch"
+                        onClick={onClear}
+                        disabled={running}
+                        className="h-9 w-9 rounded-xl">
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+            <ul className="max-h-56 space-y-1 overflow-y-auto pr-1 text-xs">
+                {items.map((item) => (
+                    <li
+                        key={item.id}
+                        className="flex items-center gap-3 rounded-xl bg-black/20 px-3 py-1.5">
+                        <span className="min-w-0 flex-1 truncate">
+                            {item.file.name}
+                        </span>
+                        <span
+                            className={`truncate uppercase tracking-wide ${STATUS_STYLES[item.status]}`}>
+                            {item.status ===
+                            "error"
+                                ? item.message ||
+                                  "error"
+                                : item.status}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
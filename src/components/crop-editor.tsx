@@ -0,0 +1,529 @@
+import {
+    useEffect,
+    useRef,
+    useState,
+} from "react";
+import type { PointerEvent } from "react";
+import {
+    FlipHorizontal2,
+    FlipVertical2,
+    RotateCcw,
+    RotateCw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    ASPECT_LOCKS,
+    IDENTITY_TRANSFORM,
+    fitCropToAspect,
+    flipCrop,
+    getCropPixels,
+    getOrientedSize,
+    rotateCrop,
+} from "@/lib/transform";
+import type {
+    AspectLock,
+    CropRect,
+    Rotation,
+    SourceTransform,
+} from "@/lib/transform";
+
+type DragState =
+    | {
+          mode: "move";
+          offsetX: number;
+          offsetY: number;
+      }
+    | {
+          mode: "resize";
+          anchorX: number;
+          anchorY: number;
+      };
+
+const MIN_CROP = 0.01;
+
+const clampUnit = (value: number) =>
+    Math.max(0, Math.min(1, value));
+
+export function CropEditor({
+    src,
+    initial,
+    onApply,
+    onClose,
+}: {
+    src: string;
+    initial: SourceTransform;
+    onApply: (transform: SourceTransform) => void;
+    onClose: () => void;
+}) {
+    const [transform, setTransform] =
+        useState(initial);
+    const [aspect, setAspect] =
+        useState<AspectLock>("free");
+    const [image, setImage] =
+        useState<HTMLImageElement | null>(null);
+    const canvasRef =
+        useRef<HTMLCanvasElement | null>(null);
+    const dragRef = useRef<DragState | null>(
+        null
+    );
+
+    useEffect(() => {
+        const element = new Image();
+        element.onload = () => setImage(element);
+        element.src = src;
+    }, [src]);
+
+    const oriented = getOrientedSize(
+        image?.naturalWidth ?? 1,
+        image?.naturalHeight ?? 1,
+        transform.rotation
+    );
+    const ratio =
+        ASPECT_LOCKS.find(
+            (entry) => entry.id === aspect
+        )?.ratio ?? null;
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !image) return;
+        canvas.width = oriented.width;
+        canvas.height = oriented.height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+        ctx.imageSmoothingEnabled = false;
+        ctx.translate(
+            oriented.width / 2,
+            oriented.height / 2
+        );
+        ctx.scale(
+            transform.flipX ? -1 : 1,
+            transform.flipY ? -1 : 1
+        );
+        ctx.rotate(
+            (transform.rotation * Math.PI) / 180
+        );
+        ctx.drawImage(
+            image,
+            -image.naturalWidth / 2,
+            -image.naturalHeight / 2
+        );
+    }, [
+        image,
+        oriented.width,
+        oriented.height,
+        transform.rotation,
+        transform.flipX,
+        transform.flipY,
+    ]);
+
+    const setCrop = (crop: CropRect | null) =>
+        setTransform((prev) => ({
+            ...prev,
+            crop,
+        }));
+
+    const rotate = (clockwise: boolean) =>
+        setTransform((prev) => {
+            const step =
+                clockwise !==
+                (prev.flipX !== prev.flipY)
+                    ? 90
+                    : 270;
+            return {
+                ...prev,
+                rotation: ((prev.rotation +
+                    step) %
+                    360) as Rotation,
+                crop: rotateCrop(
+                    prev.crop,
+                    clockwise
+                ),
+            };
+        });
+
+    const flip = (axis: "x" | "y") =>
+        setTransform((prev) => ({
+            ...prev,
+            ...(axis === "x"
+                ? { flipX: !prev.flipX }
+                : { flipY: !prev.flipY }),
+            crop: flipCrop(prev.crop, axis),
+        }));
+
+    const handleAspect = (value: AspectLock) => {
+        setAspect(value);
+        const nextRatio =
+            ASPECT_LOCKS.find(
+                (entry) => entry.id === value
+            )?.ratio ?? null;
+        if (!nextRatio) return;
+        setCrop(
+            fitCropToAspect(
+                transform.crop ?? {
+                    x: 0,
+                    y: 0,
+                    width: 1,
+                    height: 1,
+                },
+                nextRatio,
+                oriented.width,
+                oriented.height
+            )
+        );
+    };
+
+    const toUnit = (
+        event: PointerEvent<HTMLDivElement>
+    ) => {
+        const bounds =
+            event.currentTarget.getBoundingClientRect();
+        return {
+            x: clampUnit(
+                (event.clientX - bounds.left) /
+                    bounds.width
+            ),
+            y: clampUnit(
+                (event.clientY - bounds.top) /
+                    bounds.height
+            ),
+        };
+    };
+
+    const resizeFrom = (
+        anchorX: number,
+        anchorY: number,
+        x: number,
+        y: number
+    ): CropRect => {
+        let width = Math.abs(x - anchorX);
+        let height = Math.abs(y - anchorY);
+        const maxWidth =
+            x >= anchorX ? 1 - anchorX : anchorX;
+        const maxHeight =
+            y >= anchorY ? 1 - anchorY : anchorY;
+        if (ratio) {
+            const unitRatio =
+                (ratio * oriented.height) /
+                oriented.width;
+            width = Math.max(
+                width,
+                height * unitRatio
+            );
+            height = width / unitRatio;
+            if (width > maxWidth) {
+                width = maxWidth;
+                height = width / unitRatio;
+            }
+            if (height > maxHeight) {
+                height = maxHeight;
+                width = height * unitRatio;
+            }
+        }
+        return {
+            x:
+                x >= anchorX
+                    ? anchorX
+                    : anchorX - width,
+            y:
+                y >= anchorY
+                    ? anchorY
+                    : anchorY - height,
+            width,
+            height,
+        };
+    };
+
+    const handlePointerDown = (
+        event: PointerEvent<HTMLDivElement>
+    ) => {
+        const point = toUnit(event);
+        const crop = transform.crop;
+        const handle = (
+            event.target as HTMLElement
+        ).dataset.handle;
+        event.currentTarget.setPointerCapture(
+            event.pointerId
+        );
+        if (crop && handle) {
+            dragRef.current = {
+                mode: "resize",
+                anchorX: handle.includes("w")
+                    ? crop.x + crop.width
+                    : crop.x,
+                anchorY: handle.includes("n")
+                    ? crop.y + crop.height
+                    : crop.y,
+            };
+            return;
+        }
+        if (
+            crop &&
+            point.x >= crop.x &&
+            point.x <= crop.x + crop.width &&
+            point.y >= crop.y &&
+            point.y <= crop.y + crop.height
+        ) {
+            dragRef.current = {
+                mode: "move",
+                offsetX: point.x - crop.x,
+                offsetY: point.y - crop.y,
+            };
+            return;
+        }
+        dragRef.current = {
+            mode: "resize",
+            anchorX: point.x,
+            anchorY: point.y,
+        };
+        setCrop({
+            ...point,
+            width: 0,
+            height: 0,
+        });
+    };
+
+    const handlePointerMove = (
+        event: PointerEvent<HTMLDivElement>
+    ) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const point = toUnit(event);
+        if (drag.mode === "move") {
+            setTransform((prev) =>
+                prev.crop
+                    ? {
+                          ...prev,
+                          crop: {
+                              ...prev.crop,
+                              x: Math.max(
+                                  0,
+                                  Math.min(
+                                      1 -
+                                          prev
+                                              .crop
+                                              .width,
+                                      point.x -
+                                          drag.offsetX
+                                  )
+                              ),
+                              y: Math.max(
+                                  0,
+                                  Math.min(
+                                      1 -
+                                          prev
+                                              .crop
+                                              .height,
+                                      point.y -
+                                          drag.offsetY
+                                  )
+                              ),
+                          },
+                      }
+                    : prev
+            );
+            return;
+        }
+        setCrop(
+            resizeFrom(
+                drag.anchorX,
+                drag.anchorY,
+                point.x,
+                point.y
+            )
+        );
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        const crop = transform.crop;
+        if (
+            crop &&
+            (crop.width < MIN_CROP ||
+                crop.height < MIN_CROP)
+        ) {
+            setCrop(null);
+        }
+    };
+
+    const cropPixels = getCropPixels(
+        transform.crop,
+        oriented.width,
+        oriented.height
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 py-10">
+            <div className="w-full max-w-4xl rounded-3xl border border-white/15 bg-slate-950/95 text-white shadow-2xl">
+                <div className="max-h-[90vh] space-y-5 overflow-y-auto p-6 sm:p-8">
+                    <div className="flex justify-center rounded-2xl border border-white/10 bg-black/40 p-3">
+                        <div className="relative inline-block select-none overflow-hidden">
+                            <canvas
+                                ref={canvasRef}
+                                className="block max-h-[55vh] max-w-full"
+                            />
+                            <div
+                                className="absolute inset-0 cursor-crosshair touch-none"
+                                onPointerDown={
+                                    handlePointerDown
+                                }
+                                onPointerMove={
+                                    handlePointerMove
+                                }
+                                onPointerUp={
+                                    handlePointerUp
+                                }>
+                                {transform.crop && (
+                                    <div
+                                        className="absolute cursor-move border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                                        style={{
+                                            left: `${transform.crop.x * 100}%`,
+                                            top: `${transform.crop.y * 100}%`,
+                                            width: `${transform.crop.width * 100}%`,
+                                            height: `${transform.crop.height * 100}%`,
+                                        }}>
+                                        {[
+                                            "nw",
+                                            "ne",
+                                            "sw",
+                                            "se",
+                                        ].map(
+                                            (
+                                                handle
+                                            ) => (
+                                                <span
+                                                    key={
+                                                        handle
+                                                    }
+                                                    data-handle={
+                                                        handle
+                                                    }
+                                                    className={`absolute h-3 w-3 rounded-sm border border-slate-950 bg-white ${
+                                                        handle.includes(
+                                                            "n"
+                                                        )
+                                                            ? "-top-1.5"
+                                                            : "-bottom-1.5"
+                                                    } ${
+                                                        handle.includes(
+                                                            "w"
+                                                        )
+                                                            ? "-left-1.5 cursor-nwse-resize"
+                                                            : "-right-1.5 cursor-nesw-resize"
+                                                    }`}
+                                                />
+                                            )
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            title="Rotate left"
+                            onClick={() =>
+                                rotate(false)
+                            }>
+                            <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            title="Rotate right"
+                            onClick={() =>
+                                rotate(true)
+                            }>
+                            <RotateCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            title="Flip horizontally"
+                            onClick={() =>
+                                flip("x")
+                            }>
+                            <FlipHorizontal2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            title="Flip vertically"
+                            onClick={() =>
+                                flip("y")
+                            }>
+                            <FlipVertical2 className="h-4 w-4" />
+                        </Button>
+                        <Select
+                            value={aspect}
+                            onValueChange={(
+                                value
+                            ) =>
+                                handleAspect(
+                                    value as AspectLock
+                                )
+                            }>
+                            <SelectTrigger className="w-[170px] rounded-xl bg-white/5">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {ASPECT_LOCKS.map(
+                                    (entry) => (
+                                        <SelectItem
+                                            value={
+                                                entry.id
+                                            }
+                                            key={
+                                                entry.id
+                                            }>
+                                            {
+                                                entry.label
+                                            }
+                                        </SelectItem>
+                                    )
+                                )}
+                            </SelectContent>
+                        </Select>
+                        <span className="ml-auto font-mono text-xs text-white/60">
+                            {cropPixels.width}x
+                            {cropPixels.height}px
+                        </span>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-2 border-t border-white/10 pt-4">
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setTransform(
+                                    IDENTITY_TRANSFORM
+                                )
+                            }
+                            className="mr-auto rounded-2xl">
+                            Reset
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={onClose}
+                            className="rounded-2xl border border-white/10">
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() =>
+                                onApply(transform)
+                            }
+                            className="rounded-2xl">
+                            Apply
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
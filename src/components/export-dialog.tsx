@@ -0,0 +1,323 @@
+import { useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DEFAULT_NAME_TEMPLATE,
+    MAX_EXPORT_SCALE,
+    PRESET_SCALES,
+    formatExportName,
+    scaleForWidth,
+} from "@/lib/export-scales";
+
+export type ExportRequest = {
+    scales: number[];
+    raster: boolean;
+    svg: boolean;
+    template: string;
+};
+
+export function ExportDialog({
+    width,
+    height,
+    name,
+    paletteId,
+    rasterLabel,
+    rasterExtension,
+    maxRasterScale,
+    onExport,
+    onClose,
+}: {
+    width: number;
+    height: number;
+    name: string;
+    paletteId: string;
+    rasterLabel: string;
+    rasterExtension: string;
+    maxRasterScale: number;
+    onExport: (
+        request: ExportRequest
+    ) => Promise<void>;
+    onClose: () => void;
+}) {
+    const [presets, setPresets] = useState<
+        number[]
+    >([1]);
+    const [useCustom, setUseCustom] =
+        useState(false);
+    const [customWidth, setCustomWidth] =
+        useState(width * 8);
+    const [raster, setRaster] = useState(true);
+    const [svg, setSvg] = useState(false);
+    const [template, setTemplate] = useState(
+        DEFAULT_NAME_TEMPLATE
+    );
+    const [busy, setBusy] = useState(false);
+
+    const customScale = scaleForWidth(
+        customWidth,
+        width
+    );
+    const scales = useMemo(
+        () =>
+            Array.from(
+                new Set(
+                    useCustom
+                        ? [
+                              ...presets,
+                              customScale,
+                          ]
+                        : presets
+                )
+            ).sort((a, b) => a - b),
+        [presets, useCustom, customScale]
+    );
+    const extensions = [
+        ...(raster ? [rasterExtension] : []),
+        ...(svg ? ["svg"] : []),
+    ];
+    const isSkipped = (
+        scale: number,
+        extension: string
+    ) =>
+        extension !== "svg" &&
+        scale > maxRasterScale;
+    const skippedCount = raster
+        ? scales.filter(
+              (scale) => scale > maxRasterScale
+          ).length
+        : 0;
+    const fileCount =
+        scales.length * extensions.length -
+        skippedCount;
+
+    const togglePreset = (scale: number) =>
+        setPresets((prev) =>
+            prev.includes(scale)
+                ? prev.filter(
+                      (entry) => entry !== scale
+                  )
+                : [...prev, scale]
+        );
+
+    const handleExport = async () => {
+        setBusy(true);
+        try {
+            await onExport({
+                scales,
+                raster,
+                svg,
+                template,
+            });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 py-10">
+            <div className="w-full max-w-xl rounded-3xl border border-white/15 bg-slate-950/95 text-white shadow-2xl">
+                <div className="max-h-[80vh] space-y-5 overflow-y-auto p-6 sm:p-8">
+                    <div className="flex items-center gap-3">
+                        <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                            Export
+                        </span>
+                        <span className="ml-auto font-mono text-xs text-white/60">
+                            {width}x{height}px
+                            source
+                        </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="w-16 text-xs uppercase tracking-wide text-white/50">
+                            Scale
+                        </span>
+                        {PRESET_SCALES.map(
+                            (scale) => (
+                                <Button
+                                    key={scale}
+                                    variant="ghost"
+                                    onClick={() =>
+                                        togglePreset(
+                                            scale
+                                        )
+                                    }
+                                    className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                        presets.includes(
+                                            scale
+                                        )
+                                            ? "border-emerald-400/40 text-emerald-200"
+                                            : "border-white/10"
+                                    }`}>
+                                    {scale}x
+                                </Button>
+                            )
+                        )}
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setUseCustom(
+                                    (prev) =>
+                                        !prev
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                useCustom
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            Width
+                        </Button>
+                        <input
+                            type="number"
+                            min={width}
+                            max={
+                                width *
+                                MAX_EXPORT_SCALE
+                            }
+                            step={width}
+                            value={customWidth}
+                            disabled={!useCustom}
+                            onChange={(event) =>
+                                setCustomWidth(
+                                    Number(
+                                        event
+                                            .target
+                                            .value
+                                    ) || width
+                                )
+                            }
+                            className="w-24 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm outline-none focus:border-white/40 disabled:opacity-50"
+                        />
+                        {useCustom && (
+                            <span className="font-mono text-xs text-white/60">
+                                {customScale}x
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="w-16 text-xs uppercase tracking-wide text-white/50">
+                            Output
+                        </span>
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setRaster(
+                                    (prev) =>
+                                        !prev
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                raster
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            {rasterLabel}
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={() =>
+                                setSvg(
+                                    (prev) =>
+                                        !prev
+                                )
+                            }
+                            className={`rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+                                svg
+                                    ? "border-emerald-400/40 text-emerald-200"
+                                    : "border-white/10"
+                            }`}>
+                            SVG
+                        </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="w-16 text-xs uppercase tracking-wide text-white/50">
+                            Name
+                        </span>
+                        <input
+                            value={template}
+                            onChange={(event) =>
+                                setTemplate(
+                                    event.target
+                                        .value
+                                )
+                            }
+                            placeholder={
+                                DEFAULT_NAME_TEMPLATE
+                            }
+                            className="flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 font-mono text-sm outline-none focus:border-white/40"
+                        />
+                    </div>
+                    <p className="text-xs text-white/40">
+                        Tokens: {"{name}"},{" "}
+                        {"{palette}"}, {"{scale}"}
+                    </p>
+                    <ul className="max-h-48 space-y-1 overflow-y-auto pr-1 text-xs">
+                        {scales.flatMap((scale) =>
+                            extensions.map(
+                                (extension) => (
+                                    <li
+                                        key={`${scale}-${extension}`}
+                                        className="flex items-center gap-3 rounded-xl bg-black/20 px-3 py-1.5">
+                                        <span className="min-w-0 flex-1 truncate font-mono">
+                                            {formatExportName(
+                                                template,
+                                                {
+                                                    name,
+                                                    palette:
+                                                        paletteId,
+                                                    scale,
+                                                }
+                                            )}
+                                            .
+                                            {
+                                                extension
+                                            }
+                                        </span>
+                                        <span className="font-mono text-white/50">
+                                            {isSkipped(
+                                                scale,
+                                                extension
+                                            ) &&
+                                                "too large, skipped "}
+                                            {width *
+                                                scale}
+                                            x
+                                            {height *
+                                                scale}
+                                            px
+                                        </span>
+                                    </li>
+                                )
+                            )
+                        )}
+                    </ul>
+                    <div className="flex flex-wrap justify-end gap-2 border-t border-white/10 pt-4">
+                        <span className="mr-auto self-center text-xs text-white/50">
+                            {fileCount > 1
+                                ? `${fileCount} files, bundled as ZIP`
+                                : `${fileCount} file`}
+                            {skippedCount > 0 &&
+                                `; scales above ${maxRasterScale}x are too large to encode`}
+                        </span>
+                        <Button
+                            variant="ghost"
+                            onClick={onClose}
+                            className="rounded-2xl border border-white/10">
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleExport}
+                            disabled={
+                                busy || !fileCount
+                            }
+                            className="rounded-2xl">
+                            {busy && (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            )}
+                            Export
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
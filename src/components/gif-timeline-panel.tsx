@@ -0,0 +1,512 @@
+import {
+    useEffect,
+    useRef,
+    useState,
+} from "react";
+import {
+    ArrowLeftToLine,
+    ArrowRightToLine,
+    ChevronLeft,
+    ChevronRight,
+    CopyPlus,
+    RotateCcw,
+    Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import type { GifSource } from "@/lib/gif-source";
+import {
+    SPEED_MULTIPLIERS,
+    createTimeline,
+    deleteFrame,
+    duplicateFrame,
+    getPlaybackFrames,
+    moveFrame,
+    setFrameDelay,
+    setFrameRange,
+} from "@/lib/timeline";
+import type { GifTimeline } from "@/lib/timeline";
+
+const THUMB_SIZE = 56;
+const PREVIEW_SIZE = 160;
+
+function FramePreview({
+    pixels,
+    width,
+    height,
+    maxSize,
+}: {
+    pixels: Uint8ClampedArray;
+    width: number;
+    height: number;
+    maxSize: number;
+}) {
+    const canvasRef =
+        useRef<HTMLCanvasElement | null>(null);
+    const scale = Math.min(
+        1,
+        maxSize / Math.max(width, height)
+    );
+    const canvasWidth = Math.max(
+        1,
+        Math.round(width * scale)
+    );
+    const canvasHeight = Math.max(
+        1,
+        Math.round(height * scale)
+    );
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+        const frame =
+            document.createElement("canvas");
+        frame.width = width;
+        frame.height = height;
+        frame
+            .getContext("2d")
+            ?.putImageData(
+                new ImageData(
+                    new Uint8ClampedArray(pixels),
+                    width,
+                    height
+                ),
+                0,
+                0
+            );
+        ctx.clearRect(
+            0,
+            0,
+            canvas.width,
+            canvas.height
+        );
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(
+            frame,
+            0,
+            0,
+            canvas.width,
+            canvas.height
+        );
+    }, [pixels, width, height]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={canvasWidth}
+            height={canvasHeight}
+            style={{
+                width: canvasWidth,
+                height: canvasHeight,
+                imageRendering: "pixelated",
+            }}
+        />
+    );
+}
+
+export function GifTimelinePanel({
+    gif,
+    timeline,
+    onChange,
+}: {
+    gif: GifSource;
+    timeline: GifTimeline;
+    onChange: (timeline: GifTimeline) => void;
+}) {
+    const [selected, setSelected] = useState(0);
+    const dragIndexRef = useRef<number | null>(
+        null
+    );
+    const frameCount = timeline.frames.length;
+    const index = Math.min(
+        selected,
+        frameCount - 1
+    );
+    const current = timeline.frames[index];
+    const playback = getPlaybackFrames(timeline);
+    const totalMs = playback.reduce(
+        (sum, frame) => sum + frame.delay * 10,
+        0
+    );
+
+    const toggleClass = (active: boolean) =>
+        `rounded-2xl border px-4 text-xs uppercase tracking-wide ${
+            active
+                ? "border-emerald-400/40 text-emerald-200"
+                : "border-white/10"
+        }`;
+
+    const handleMove = (to: number) => {
+        onChange(moveFrame(timeline, index, to));
+        setSelected(
+            Math.max(
+                0,
+                Math.min(frameCount - 1, to)
+            )
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5/40 px-4 py-4 backdrop-blur md:px-5">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                    Timeline
+                </span>
+                <span className="font-mono text-xs text-white/60">
+                    {playback.length} frames ·{" "}
+                    {(totalMs / 1000).toFixed(2)}s
+                </span>
+                <div className="ml-auto flex flex-wrap items-center gap-2">
+                    <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                        Speed
+                    </span>
+                    <Select
+                        value={String(
+                            timeline.speed
+                        )}
+                        onValueChange={(value) =>
+                            onChange({
+                                ...timeline,
+                                speed: Number(
+                                    value
+                                ),
+                            })
+                        }>
+                        <SelectTrigger className="w-[100px] rounded-xl bg-white/5">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {SPEED_MULTIPLIERS.map(
+                                (speed) => (
+                                    <SelectItem
+                                        value={String(
+                                            speed
+                                        )}
+                                        key={
+                                            speed
+                                        }>
+                                        {speed}x
+                                    </SelectItem>
+                                )
+                            )}
+                        </SelectContent>
+                    </Select>
+                    <Button
+                        variant="ghost"
+                        onClick={() =>
+                            onChange({
+                                ...timeline,
+                                reverse:
+                                    !timeline.reverse,
+                            })
+                        }
+                        className={toggleClass(
+                            timeline.reverse
+                        )}>
+                        Reverse
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        onClick={() =>
+                            onChange({
+                                ...timeline,
+                                pingPong:
+                                    !timeline.pingPong,
+                            })
+                        }
+                        className={toggleClass(
+                            timeline.pingPong
+                        )}>
+                        Ping-pong
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reset timeline"
+                        onClick={() => {
+                            onChange(
+                                createTimeline(
+                                    gif
+                                )
+                            );
+                            setSelected(0);
+                        }}
+                        className="h-9 w-9 rounded-xl">
+                        <RotateCcw className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+            {current && (
+                <div className="flex flex-col gap-4 md:flex-row md:items-center">
+                    <div className="flex h-40 w-40 flex-shrink-0 items-center justify-center rounded-2xl border border-white/10 bg-black/30">
+                        <FramePreview
+                            pixels={
+                                gif.frames[
+                                    current.source
+                                ].pixels
+                            }
+                            width={gif.width}
+                            height={gif.height}
+                            maxSize={PREVIEW_SIZE}
+                        />
+                    </div>
+                    <div className="flex flex-1 flex-col gap-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-xs text-white/60">
+                                Frame {index + 1}/
+                                {frameCount} ·
+                                source #
+                                {current.source +
+                                    1}
+                            </span>
+                            <label className="ml-auto flex items-center gap-2 text-xs uppercase tracking-wide text-white/50">
+                                Delay
+                                <input
+                                    type="number"
+                                    min={10}
+                                    max={655350}
+                                    step={10}
+                                    value={
+                                        current.delay *
+                                        10
+                                    }
+                                    onChange={(
+                                        event
+                                    ) => {
+                                        const ms =
+                                            Number(
+                                                event
+                                                    .target
+                                                    .value
+                                            );
+                                        if (!ms)
+                                            return;
+                                        onChange(
+                                            setFrameDelay(
+                                                timeline,
+                                                index,
+                                                ms /
+                                                    10
+                                            )
+                                        );
+                                    }}
+                                    className="w-24 rounded-xl border border-white/10 bg-white/5 px-3 py-2 font-mono text-sm normal-case text-white outline-none focus:border-white/40"
+                                />
+                                ms
+                            </label>
+                        </div>
+                        <Slider
+                            value={[index]}
+                            min={0}
+                            max={Math.max(
+                                0,
+                                frameCount - 1
+                            )}
+                            step={1}
+                            onValueChange={([
+                                value,
+                            ]) =>
+                                setSelected(value)
+                            }
+                        />
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Move earlier"
+                                disabled={
+                                    index === 0
+                                }
+                                onClick={() =>
+                                    handleMove(
+                                        index - 1
+                                    )
+                                }
+                                className="h-9 w-9 rounded-xl">
+                                <ChevronLeft className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Move later"
+                                disabled={
+                                    index ===
+                                    frameCount - 1
+                                }
+                                onClick={() =>
+                                    handleMove(
+                                        index + 1
+                                    )
+                                }
+                                className="h-9 w-9 rounded-xl">
+                                <ChevronRight className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Duplicate frame"
+                                onClick={() => {
+                                    onChange(
+                                        duplicateFrame(
+                                            timeline,
+                                            index
+                                        )
+                                    );
+                                    setSelected(
+                                        index + 1
+                                    );
+                                }}
+                                className="h-9 w-9 rounded-xl">
+                                <CopyPlus className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Delete frame"
+                                disabled={
+                                    frameCount <=
+                                    1
+                                }
+                                onClick={() =>
+                                    onChange(
+                                        deleteFrame(
+                                            timeline,
+                                            index
+                                        )
+                                    )
+                                }
+                                className="h-9 w-9 rounded-xl">
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                title="Start the range at this frame"
+                                onClick={() =>
+                                    onChange(
+                                        setFrameRange(
+                                            timeline,
+                                            index,
+                                            Math.max(
+                                                index,
+                                                timeline.end
+                                            )
+                                        )
+                                    )
+                                }
+                                className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                                <ArrowLeftToLine className="h-4 w-4" />
+                                In
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                title="End the range at this frame"
+                                onClick={() =>
+                                    onChange(
+                                        setFrameRange(
+                                            timeline,
+                                            Math.min(
+                                                index,
+                                                timeline.start
+                                            ),
+                                            index
+                                        )
+                                    )
+                                }
+                                className="rounded-2xl border border-white/10 px-4 text-xs uppercase tracking-wide">
+                                <ArrowRightToLine className="h-4 w-4" />
+                                Out
+                            </Button>
+                            <span className="font-mono text-xs text-white/60">
+                                Range{" "}
+                                {timeline.start +
+                                    1}
+                                –
+                                {timeline.end + 1}
+                            </span>
+                        </div>
+                    </div>
+                </div>
+            )}
+            <ol className="flex gap-2 overflow-x-auto pb-2">
+                {timeline.frames.map(
+                    (frame, i) => (
+                        <li
+                            key={frame.id}
+                            draggable
+                            onDragStart={() => {
+                                dragIndexRef.current =
+                                    i;
+                            }}
+                            onDragOver={(event) =>
+                                event.preventDefault()
+                            }
+                            onDrop={(event) => {
+                                event.preventDefault();
+                                const from =
+                                    dragIndexRef.current;
+                                dragIndexRef.current =
+                                    null;
+                                if (from === null)
+                                    return;
+                                onChange(
+                                    moveFrame(
+                                        timeline,
+                                        from,
+                                        i
+                                    )
+                                );
+                                setSelected(i);
+                            }}
+                            onClick={() =>
+                                setSelected(i)
+                            }
+                            className={`flex flex-shrink-0 cursor-pointer flex-col items-center gap-1 rounded-xl border p-1.5 ${
+                                i === index
+                                    ? "border-emerald-400/60"
+                                    : "border-white/10"
+                            } ${
+                                i <
+                                    timeline.start ||
+                                i > timeline.end
+                                    ? "opacity-40"
+                                    : ""
+                            }`}>
+                            <div className="flex h-14 w-14 items-center justify-center bg-black/30">
+                                <FramePreview
+                                    pixels={
+                                        gif
+                                            .frames[
+                                            frame
+                                                .source
+                                        ].pixels
+                                    }
+                                    width={
+                                        gif.width
+                                    }
+                                    height={
+                                        gif.height
+                                    }
+                                    maxSize={
+                                        THUMB_SIZE
+                                    }
+                                />
+                            </div>
+                            <span className="font-mono text-[10px] text-white/50">
+                                {frame.delay * 10}
+                                ms
+                            </span>
+                        </li>
+                    )
+                )}
+            </ol>
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { lumaOf } from "@/lib/adjustments";
+import type { Histogram } from "@/lib/adjustments";
+import { hexToRgb } from "@/lib/utils";
+
+const CHART_HEIGHT = 64;
+
+const toPath = (
+    bins: Uint32Array,
+    peak: number
+) =>
+    `M0 ${CHART_HEIGHT} ${Array.from(
+        bins,
+        (count, x) =>
+            `L${x} ${(
+                CHART_HEIGHT -
+                (Math.sqrt(count) / peak) *
+                    CHART_HEIGHT
+            ).toFixed(1)}`
+    ).join(" ")} L255 ${CHART_HEIGHT} Z`;
+
+export function HistogramChart({
+    histogram,
+    palette,
+    className = "",
+}: {
+    histogram: Histogram | null;
+    palette: string[];
+    className?: string;
+}) {
+    const paths = useMemo(() => {
+        if (!histogram) return null;
+        const peak = Math.max(
+            1,
+            ...[
+                histogram.red,
+                histogram.green,
+                histogram.blue,
+                histogram.luma,
+            ].map((bins) =>
+                Math.sqrt(Math.max(...bins))
+            )
+        );
+        return {
+            luma: toPath(histogram.luma, peak),
+            red: toPath(histogram.red, peak),
+            green: toPath(histogram.green, peak),
+            blue: toPath(histogram.blue, peak),
+        };
+    }, [histogram]);
+
+    return (
+        <div
+            className={`flex flex-col gap-1 ${className}`}>
+            <svg
+                viewBox={`0 0 256 ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                className="h-16 w-full rounded-lg border border-white/10 bg-black/40">
+                {paths && (
+                    <>
+                        <path
+                            d={paths.luma}
+                            fill="rgba(255,255,255,0.25)"
+                        />
+                        <path
+                            d={paths.red}
+                            fill="none"
+                            stroke="rgba(248,113,113,0.8)"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                        <path
+                            d={paths.green}
+                            fill="none"
+                            stroke="rgba(74,222,128,0.8)"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                        <path
+                            d={paths.blue}
+                            fill="none"
+                            stroke="rgba(96,165,250,0.8)"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    </>
+                )}
+            </svg>
+            <div className="relative h-3 w-full">
+                {palette.map((hex, index) => {
+                    const { r, g, b } =
+                        hexToRgb(hex);
+                    return (
+                        <span
+                            key={`${hex}-${index}`}
+                            title={hex}
+                            className="absolute top-0 h-3 w-1.5 -translate-x-1/2 rounded-sm border border-white/30"
+                            style={{
+                                left: `${
+                                    (lumaOf(
+                                        r,
+                                        g,
+                                        b
+                                    ) /
+                                        255) *
+                                    100
+                                }%`,
+                                backgroundColor:
+                                    hex,
+                            }}
+                        />
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
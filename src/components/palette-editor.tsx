@@ -0,0 +1,363 @@
+import { useRef, useState } from "react";
+import {
+    ArrowDownToLine,
+    ChevronLeft,
+    ChevronRight,
+    Plus,
+    Trash2,
+    Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    MAX_PALETTE_COLORS,
+    PALETTE_FILE_FORMATS,
+    parsePaletteFile,
+    serializePalette,
+} from "@/lib/palette-formats";
+import type { PaletteFileFormat } from "@/lib/palette-formats";
+import type { StoredPalette } from "@/lib/palette-store";
+import { downloadBlob } from "@/lib/utils";
+
+export function PaletteEditor({
+    initial,
+    canDelete,
+    onSave,
+    onDelete,
+    onClose,
+}: {
+    initial: StoredPalette;
+    canDelete: boolean;
+    onSave: (palette: StoredPalette) => void;
+    onDelete: () => void;
+    onClose: () => void;
+}) {
+    const [label, setLabel] = useState(
+        initial.label
+    );
+    const [colors, setColors] = useState(
+        initial.colors
+    );
+    const [selected, setSelected] = useState(0);
+    const [exportFormat, setExportFormat] =
+        useState<PaletteFileFormat>("gpl");
+    const [message, setMessage] = useState("");
+    const importRef =
+        useRef<HTMLInputElement | null>(null);
+
+    const selectedColor =
+        colors[selected] ?? "#000000";
+
+    const updateColor = (hex: string) => {
+        setColors((prev) =>
+            prev.map((color, index) =>
+                index === selected
+                    ? hex.toLowerCase()
+                    : color
+            )
+        );
+    };
+
+    const addColor = () => {
+        if (colors.length >= MAX_PALETTE_COLORS)
+            return;
+        setColors((prev) => [
+            ...prev.slice(0, selected + 1),
+            selectedColor,
+            ...prev.slice(selected + 1),
+        ]);
+        setSelected(
+            Math.min(selected + 1, colors.length)
+        );
+    };
+
+    const removeColor = () => {
+        if (colors.length <= 1) return;
+        setColors((prev) =>
+            prev.filter(
+                (_, index) => index !== selected
+            )
+        );
+        setSelected(Math.max(0, selected - 1));
+    };
+
+    const moveColor = (direction: -1 | 1) => {
+        const target = selected + direction;
+        if (target < 0 || target >= colors.length)
+            return;
+        setColors((prev) => {
+            const next = prev.slice();
+            [next[selected], next[target]] = [
+                next[target],
+                next[selected],
+            ];
+            return next;
+        });
+        setSelected(target);
+    };
+
+    const handleImport = (file: File) => {
+        file.arrayBuffer()
+            .then((buffer) => {
+                const parsed = parsePaletteFile(
+                    file.name,
+                    buffer
+                );
+                setLabel(parsed.label);
+                setColors(parsed.colors);
+                setSelected(0);
+                setMessage(
+                    `Imported ${parsed.colors.length} colors.`
+                );
+            })
+            .catch((error) => {
+                console.error(
+                    "[palette-import]",
+                    error
+                );
+                setMessage(
+                    error instanceof Error
+                        ? error.message
+                        : "Failed to import palette."
+                );
+            });
+    };
+
+    const handleExport = () => {
+        const format =
+            PALETTE_FILE_FORMATS.find(
+                (entry) =>
+                    entry.id === exportFormat
+            ) ?? PALETTE_FILE_FORMATS[0];
+        const safeName =
+            label
+                .trim()
+                .replace(/[^a-z0-9-_]+/gi, "-")
+                .toLowerCase() || "palette";
+        downloadBlob(
+            serializePalette(
+                { label, colors },
+                format.id
+            ),
+            `${safeName}.${format.extension}`
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4 py-10">
+            <div className="w-full max-w-2xl rounded-3xl border border-white/15 bg-slate-950/95 text-white shadow-2xl">
+                <div className="max-h-[80vh] space-y-5 overflow-y-auto p-6 sm:p-8">
+                    <div className="flex items-center gap-3">
+                        <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+                            Name
+                        </span>
+                        <input
+                            value={label}
+                            onChange={(event) =>
+                                setLabel(
+                                    event.target
+                                        .value
+                                )
+                            }
+                            className="flex-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm outline-none focus:border-white/40"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-1.5 rounded-2xl border border-white/10 bg-black/30 p-3">
+                        {colors.map(
+                            (hex, index) => (
+                                <button
+                                    key={`${hex}-${index}`}
+                                    type="button"
+                                    title={hex}
+                                    onClick={() =>
+                                        setSelected(
+                                            index
+                                        )
+                                    }
+                                    className={`h-8 w-8 rounded-lg border-2 ${
+                                        index ===
+                                        selected
+                                            ? "border-white"
+                                            : "border-white/15"
+                                    }`}
+                                    style={{
+                                        backgroundColor:
+                                            hex,
+                                    }}
+                                />
+                            )
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="color"
+                            value={selectedColor}
+                            onChange={(event) =>
+                                updateColor(
+                                    event.target
+                                        .value
+                                )
+                            }
+                            className="h-9 w-12 cursor-pointer rounded-lg border border-white/10 bg-transparent"
+                        />
+                        <span className="w-20 font-mono text-xs text-white/70">
+                            {selectedColor}
+                        </span>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                                moveColor(-1)
+                            }
+                            disabled={
+                                selected === 0
+                            }>
+                            <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                                moveColor(1)
+                            }
+                            disabled={
+                                selected >=
+                                colors.length - 1
+                            }>
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={addColor}
+                            disabled={
+                                colors.length >=
+                                MAX_PALETTE_COLORS
+                            }>
+                            <Plus className="h-4 w-4" />
+                            Add
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={removeColor}
+                            disabled={
+                                colors.length <= 1
+                            }>
+                            <Trash2 className="h-4 w-4" />
+                            Remove
+                        </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 border-t border-white/10 pt-4">
+                        <input
+                            ref={importRef}
+                            type="file"
+                            accept=".gpl,.pal,.hex,.txt,.ase"
+                            className="hidden"
+                            onChange={(event) => {
+                                const file =
+                                    event.target
+                                        .files?.[0];
+                                if (file)
+                                    handleImport(
+                                        file
+                                    );
+                                event.target.value =
+                                    "";
+                            }}
+                        />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                                importRef.current?.click()
+                            }>
+                            <Upload className="h-4 w-4" />
+                            Import
+                        </Button>
+                        <Select
+                            value={exportFormat}
+                            onValueChange={(
+                                value
+                            ) =>
+                                setExportFormat(
+                                    value as PaletteFileFormat
+                                )
+                            }>
+                            <SelectTrigger className="w-[170px] rounded-xl bg-white/5">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PALETTE_FILE_FORMATS.map(
+                                    (format) => (
+                                        <SelectItem
+                                            value={
+                                                format.id
+                                            }
+                                            key={
+                                                format.id
+                                            }>
+                                            {
+                                                format.label
+                                            }
+                                        </SelectItem>
+                                    )
+                                )}
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={
+                                handleExport
+                            }>
+                            <ArrowDownToLine className="h-4 w-4" />
+                            Export
+                        </Button>
+                    </div>
+                    {message && (
+                        <p className="text-xs text-emerald-200">
+                            {message}
+                        </p>
+                    )}
+                    <div className="flex flex-wrap justify-end gap-2 border-t border-white/10 pt-4">
+                        {canDelete && (
+                            <Button
+                                variant="ghost"
+                                onClick={onDelete}
+                                className="mr-auto rounded-2xl text-red-300">
+                                <Trash2 className="h-4 w-4" />
+                                Delete palette
+                            </Button>
+                        )}
+                        <Button
+                            variant="ghost"
+                            onClick={onClose}
+                            className="rounded-2xl border border-white/10">
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() =>
+                                onSave({
+                                    ...initial,
+                                    label:
+                                        label.trim() ||
+                                        "Untitled palette",
+                                    colors,
+                                })
+                            }
+                            className="rounded-2xl">
+                            Save palette
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
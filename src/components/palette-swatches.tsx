@@ -0,0 +1,46 @@
+export function PaletteSwatches({
+    colors,
+    className = "",
+    selected,
+    onSelect,
+}: {
+    colors: string[];
+    className?: string;
+    selected?: string;
+    onSelect?: (hex: string) => void;
+}) {
+    return (
+        <div
+            className={`flex flex-wrap gap-1 ${className}`}>
+            {colors.map((hex, index) =>
+                onSelect ? (
+                    <button
+                        key={`${hex}-${index}`}
+                        type="button"
+                        title={hex}
+                        onClick={() =>
+                            onSelect(hex)
+                        }
+                        className={`h-5 w-5 rounded-md border-2 ${
+                            hex === selected
+                                ? "border-white"
+                                : "border-white/20"
+                        }`}
+                        style={{
+                            backgroundColor: hex,
+                        }}
+                    />
+                ) : (
+                    <span
+                        key={`${hex}-${index}`}
+                        title={hex}
+                        className="h-5 w-5 rounded-md border border-white/20"
+                        style={{
+                            backgroundColor: hex,
+                        }}
+                    />
+                )
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,250 @@
+export type ImageAdjustments = {
+    brightness: number;
+    contrast: number;
+    saturation: number;
+    gamma: number;
+    hue: number;
+    sharpen: number;
+    posterize: number;
+};
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments =
+    {
+        brightness: 0,
+        contrast: 0,
+        saturation: 0,
+        gamma: 1,
+        hue: 0,
+        sharpen: 0,
+        posterize: 0,
+    };
+
+export type Histogram = {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luma: Uint32Array;
+};
+
+export const hasAdjustments = (
+    adjustments: ImageAdjustments
+) =>
+    (
+        Object.keys(
+            DEFAULT_ADJUSTMENTS
+        ) as (keyof ImageAdjustments)[]
+    ).some(
+        (key) =>
+            adjustments[key] !==
+            DEFAULT_ADJUSTMENTS[key]
+    );
+
+export const lumaOf = (
+    r: number,
+    g: number,
+    b: number
+) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const clampByte = (value: number) =>
+    value < 0 ? 0 : value > 255 ? 255 : value;
+
+function buildToneLut({
+    brightness,
+    contrast,
+    gamma,
+}: ImageAdjustments) {
+    const offset = (brightness / 100) * 255;
+    const c = (contrast / 100) * 254;
+    const factor =
+        (259 * (c + 255)) / (255 * (259 - c));
+    const exponent = 1 / Math.max(0.01, gamma);
+    const lut = new Float32Array(256);
+    for (let v = 0; v < 256; v++) {
+        const lit = clampByte(v + offset);
+        const contrasted = clampByte(
+            factor * (lit - 128) + 128
+        );
+        lut[v] =
+            255 * (contrasted / 255) ** exponent;
+    }
+    return lut;
+}
+
+function buildColorMatrix({
+    saturation,
+    hue,
+}: ImageAdjustments) {
+    const s = 1 + saturation / 100;
+    const lr = 0.299 * (1 - s);
+    const lg = 0.587 * (1 - s);
+    const lb = 0.114 * (1 - s);
+    const saturate = [
+        lr + s,
+        lg,
+        lb,
+        lr,
+        lg + s,
+        lb,
+        lr,
+        lg,
+        lb + s,
+    ];
+    const angle = (hue * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const rotate = [
+        0.213 + cos * 0.787 - sin * 0.213,
+        0.715 - cos * 0.715 - sin * 0.715,
+        0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143,
+        0.715 + cos * 0.285 + sin * 0.14,
+        0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787,
+        0.715 - cos * 0.715 + sin * 0.715,
+        0.072 + cos * 0.928 + sin * 0.072,
+    ];
+    const matrix = new Array<number>(9);
+    for (let row = 0; row < 3; row++) {
+        for (let col = 0; col < 3; col++) {
+            matrix[row * 3 + col] =
+                rotate[row * 3] * saturate[col] +
+                rotate[row * 3 + 1] *
+                    saturate[3 + col] +
+                rotate[row * 3 + 2] *
+                    saturate[6 + col];
+        }
+    }
+    return matrix;
+}
+
+function sharpenChannels(
+    channels: Float32Array,
+    width: number,
+    height: number,
+    amount: number
+) {
+    const output = new Float32Array(
+        channels.length
+    );
+    for (let y = 0; y < height; y++) {
+        const up = Math.max(0, y - 1);
+        const down = Math.min(height - 1, y + 1);
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - 1);
+            const right = Math.min(
+                width - 1,
+                x + 1
+            );
+            const index = (y * width + x) * 3;
+            for (let c = 0; c < 3; c++) {
+                const neighbours =
+                    channels[
+                        (up * width + x) * 3 + c
+                    ] +
+                    channels[
+                        (down * width + x) * 3 + c
+                    ] +
+                    channels[
+                        (y * width + left) * 3 + c
+                    ] +
+                    channels[
+                        (y * width + right) * 3 +
+                            c
+                    ];
+                const center =
+                    channels[index + c];
+                output[index + c] =
+                    center +
+                    amount *
+                        (center - neighbours / 4);
+            }
+        }
+    }
+    return output;
+}
+
+export function applyAdjustments(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    adjustments: ImageAdjustments
+) {
+    if (!hasAdjustments(adjustments)) {
+        return pixels;
+    }
+    const lut = buildToneLut(adjustments);
+    const matrix = buildColorMatrix(adjustments);
+    const pixelCount = width * height;
+    let channels = new Float32Array(
+        pixelCount * 3
+    );
+    for (let i = 0; i < pixelCount; i++) {
+        const r = lut[pixels[i * 4]];
+        const g = lut[pixels[i * 4 + 1]];
+        const b = lut[pixels[i * 4 + 2]];
+        channels[i * 3] =
+            matrix[0] * r +
+            matrix[1] * g +
+            matrix[2] * b;
+        channels[i * 3 + 1] =
+            matrix[3] * r +
+            matrix[4] * g +
+            matrix[5] * b;
+        channels[i * 3 + 2] =
+            matrix[6] * r +
+            matrix[7] * g +
+            matrix[8] * b;
+    }
+    if (adjustments.sharpen > 0) {
+        channels = sharpenChannels(
+            channels,
+            width,
+            height,
+            (adjustments.sharpen / 100) * 2
+        );
+    }
+    const levels =
+        adjustments.posterize >= 2
+            ? Math.round(adjustments.posterize)
+            : 0;
+    const step = levels ? 255 / (levels - 1) : 0;
+    const output = new Uint8ClampedArray(
+        pixels.length
+    );
+    for (let i = 0; i < pixelCount; i++) {
+        for (let c = 0; c < 3; c++) {
+            const value = clampByte(
+                channels[i * 3 + c]
+            );
+            output[i * 4 + c] = levels
+                ? Math.round(value / step) * step
+                : value;
+        }
+        output[i * 4 + 3] = pixels[i * 4 + 3];
+    }
+    return output;
+}
+
+export function computeHistogram(
+    pixels: Uint8ClampedArray
+): Histogram {
+    const histogram: Histogram = {
+        red: new Uint32Array(256),
+        green: new Uint32Array(256),
+        blue: new Uint32Array(256),
+        luma: new Uint32Array(256),
+    };
+    for (let i = 0; i < pixels.length; i += 4) {
+        if (pixels[i + 3] === 0) continue;
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+        histogram.red[r]++;
+        histogram.green[g]++;
+        histogram.blue[b]++;
+        histogram.luma[
+            Math.round(lumaOf(r, g, b))
+        ]++;
+    }
+    return histogram;
+}
@@ -0,0 +1,101 @@
+import {
+    PNG_SIGNATURE,
+    getIndexedBitDepth,
+    headerChunk,
+    packIndexedRows,
+    paletteChunks,
+    pngChunk,
+    textChunks,
+    zlibCompress,
+} from "@/lib/png";
+
+export type ApngFrame = {
+    indices: Uint8Array;
+    delay: number;
+};
+
+export async function encodeIndexedApng({
+    width,
+    height,
+    frames,
+    palette,
+    transparentIndex = null,
+    playCount = 0,
+    text = {},
+    checkpoint,
+}: {
+    width: number;
+    height: number;
+    frames: ApngFrame[];
+    palette: number[];
+    transparentIndex?: number | null;
+    playCount?: number;
+    text?: Record<string, string>;
+    checkpoint?: (index: number) => Promise<void>;
+}) {
+    const bitDepth = getIndexedBitDepth(
+        palette.length
+    );
+    const actl = new Uint8Array(8);
+    new DataView(actl.buffer).setUint32(
+        0,
+        frames.length
+    );
+    new DataView(actl.buffer).setUint32(
+        4,
+        playCount
+    );
+    const parts: Uint8Array<ArrayBuffer>[] = [
+        PNG_SIGNATURE,
+        headerChunk(width, height, bitDepth),
+        pngChunk("acTL", actl),
+        ...paletteChunks(
+            palette,
+            transparentIndex
+        ),
+        ...textChunks(text),
+    ];
+    let sequence = 0;
+    for (let i = 0; i < frames.length; i++) {
+        await checkpoint?.(i);
+        const fctl = new Uint8Array(26);
+        const view = new DataView(fctl.buffer);
+        view.setUint32(0, sequence++);
+        view.setUint32(4, width);
+        view.setUint32(8, height);
+        view.setUint32(12, 0);
+        view.setUint32(16, 0);
+        view.setUint16(20, frames[i].delay);
+        view.setUint16(22, 100);
+        fctl[24] = 0;
+        fctl[25] = 0;
+        parts.push(pngChunk("fcTL", fctl));
+        const data = await zlibCompress(
+            packIndexedRows(
+                frames[i].indices,
+                width,
+                height,
+                bitDepth
+            )
+        );
+        if (i === 0) {
+            parts.push(pngChunk("IDAT", data));
+            continue;
+        }
+        const fdat = new Uint8Array(
+            4 + data.length
+        );
+        new DataView(fdat.buffer).setUint32(
+            0,
+            sequence++
+        );
+        fdat.set(data, 4);
+        parts.push(pngChunk("fdAT", fdat));
+    }
+    parts.push(
+        pngChunk("IEND", new Uint8Array(0))
+    );
+    return new Blob(parts, {
+        type: "image/apng",
+    });
+}
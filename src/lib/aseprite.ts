@@ -0,0 +1,249 @@
+import { hexToRgb } from "@/lib/utils";
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+import {
+    buildPaletteLookup,
+    colorGridToIndexedPixels,
+} from "@/lib/convert";
+import type { ConvertedFrame } from "@/lib/convert";
+import { clampFrameDelay } from "@/lib/gif-source";
+import { zlibCompress } from "@/lib/png";
+
+const HEADER_SIZE = 128;
+const FRAME_HEADER_SIZE = 16;
+const CHUNK_HEADER_SIZE = 6;
+const FILE_MAGIC = 0xa5e0;
+const FRAME_MAGIC = 0xf1fa;
+const LAYER_CHUNK = 0x2004;
+const CEL_CHUNK = 0x2005;
+const PALETTE_CHUNK = 0x2019;
+const COMPRESSED_IMAGE_CEL = 2;
+const LAYER_VISIBLE = 1;
+const LAYER_EDITABLE = 2;
+const LAYER_BACKGROUND = 8;
+
+class ByteWriter {
+    private bytes: number[] = [];
+
+    byte(value: number) {
+        this.bytes.push(value & 0xff);
+        return this;
+    }
+
+    word(value: number) {
+        return this.byte(value).byte(value >> 8);
+    }
+
+    dword(value: number) {
+        return this.word(value & 0xffff).word(
+            value >>> 16
+        );
+    }
+
+    zeros(count: number) {
+        for (let i = 0; i < count; i++)
+            this.byte(0);
+        return this;
+    }
+
+    string(text: string) {
+        const encoded = new TextEncoder().encode(
+            text
+        );
+        this.word(encoded.length);
+        encoded.forEach((value) =>
+            this.byte(value)
+        );
+        return this;
+    }
+
+    data(values: Uint8Array) {
+        values.forEach((value) =>
+            this.byte(value)
+        );
+        return this;
+    }
+
+    get length() {
+        return this.bytes.length;
+    }
+
+    toBytes() {
+        return Uint8Array.from(this.bytes);
+    }
+}
+
+function chunk(type: number, body: ByteWriter) {
+    return new ByteWriter()
+        .dword(CHUNK_HEADER_SIZE + body.length)
+        .word(type)
+        .data(body.toBytes());
+}
+
+export async function encodeAseprite({
+    frames,
+    paletteHex,
+    layerName = "Pixel Art",
+}: {
+    frames: ConvertedFrame[];
+    paletteHex: string[];
+    layerName?: string;
+}) {
+    const height = frames[0]?.colors.length ?? 0;
+    const width =
+        frames[0]?.colors[0]?.length ?? 0;
+    if (!width || !height) {
+        throw new Error("No frames to export.");
+    }
+    const hasTransparency = frames.some(
+        ({ colors }) =>
+            colors.some((row) =>
+                row.includes(TRANSPARENT_CELL)
+            )
+    );
+    const {
+        colorIndexMap,
+        fallbackIndex,
+        transparentIndex,
+    } = buildPaletteLookup(
+        paletteHex,
+        hasTransparency
+    );
+    const palette = Array.from(
+        colorIndexMap.keys()
+    );
+    const colorCount =
+        transparentIndex !== null
+            ? transparentIndex + 1
+            : palette.length;
+
+    const paletteBody = new ByteWriter()
+        .dword(colorCount)
+        .dword(0)
+        .dword(colorCount - 1)
+        .zeros(8);
+    for (
+        let index = 0;
+        index < colorCount;
+        index++
+    ) {
+        const { r, g, b } = hexToRgb(
+            palette[index] ?? palette[0]
+        );
+        paletteBody
+            .word(0)
+            .byte(r)
+            .byte(g)
+            .byte(b)
+            .byte(
+                index === transparentIndex
+                    ? 0
+                    : 255
+            );
+    }
+    const layerBody = new ByteWriter()
+        .word(
+            LAYER_VISIBLE |
+                LAYER_EDITABLE |
+                (hasTransparency
+                    ? 0
+                    : LAYER_BACKGROUND)
+        )
+        .word(0)
+        .word(0)
+        .word(0)
+        .word(0)
+        .word(0)
+        .byte(255)
+        .zeros(3)
+        .string(layerName);
+
+    const frameBytes: Uint8Array<ArrayBuffer>[] =
+        [];
+    for (const frame of frames) {
+        const pixels = await zlibCompress(
+            colorGridToIndexedPixels({
+                colors: frame.colors,
+                pixelSize: 1,
+                colorIndexMap,
+                fallbackIndex,
+                transparentIndex,
+            })
+        );
+        const chunks = [
+            chunk(
+                CEL_CHUNK,
+                new ByteWriter()
+                    .word(0)
+                    .word(0)
+                    .word(0)
+                    .byte(255)
+                    .word(COMPRESSED_IMAGE_CEL)
+                    .word(0)
+                    .zeros(5)
+                    .word(width)
+                    .word(height)
+                    .data(pixels)
+            ),
+        ];
+        if (!frameBytes.length) {
+            chunks.unshift(
+                chunk(PALETTE_CHUNK, paletteBody),
+                chunk(LAYER_CHUNK, layerBody)
+            );
+        }
+        const size =
+            FRAME_HEADER_SIZE +
+            chunks.reduce(
+                (sum, entry) =>
+                    sum + entry.length,
+                0
+            );
+        const header = new ByteWriter()
+            .dword(size)
+            .word(FRAME_MAGIC)
+            .word(chunks.length)
+            .word(
+                clampFrameDelay(frame.delay) * 10
+            )
+            .zeros(2)
+            .dword(chunks.length);
+        frameBytes.push(
+            header.toBytes(),
+            ...chunks.map((entry) =>
+                entry.toBytes()
+            )
+        );
+    }
+
+    const fileSize =
+        HEADER_SIZE +
+        frameBytes.reduce(
+            (sum, entry) => sum + entry.length,
+            0
+        );
+    const header = new ByteWriter()
+        .dword(fileSize)
+        .word(FILE_MAGIC)
+        .word(frames.length)
+        .word(width)
+        .word(height)
+        .word(8)
+        .dword(1)
+        .word(100)
+        .dword(0)
+        .dword(0)
+        .byte(transparentIndex ?? 0)
+        .zeros(3)
+        .word(colorCount === 256 ? 0 : colorCount)
+        .byte(1)
+        .byte(1)
+        .word(0)
+        .word(0)
+        .word(16)
+        .word(16)
+        .zeros(84);
+    return new Blob(
+        [header.toBytes(), ...frameBytes],
+        { type: "application/octet-stream" }
+    );
+}
@@ -0,0 +1,174 @@
+import { getSourceTransfer } from "@/lib/convert";
+import type {
+    ConversionResult,
+    ConversionSettings,
+    ConversionSource,
+    ConvertRequest,
+    ConvertResponse,
+} from "@/lib/convert";
+import { isVideoFile } from "@/lib/video-source";
+
+export type BatchStatus =
+    "queued" | "converting" | "done" | "error";
+
+export type BatchItem = {
+    id: number;
+    file: File;
+    status: BatchStatus;
+    message: string;
+};
+
+const isMediaFile = (file: File) =>
+    file.type.startsWith("image") ||
+    /\.(png|jpe?g|gif|webp|bmp)$/i.test(
+        file.name
+    ) ||
+    isVideoFile(file);
+
+const readEntries = (
+    reader: FileSystemDirectoryReader
+) =>
+    new Promise<FileSystemEntry[]>(
+        (resolve, reject) =>
+            reader.readEntries(resolve, reject)
+    );
+
+async function collectEntry(
+    entry: FileSystemEntry,
+    files: File[]
+) {
+    if (entry.isFile) {
+        const file = await new Promise<File>(
+            (resolve, reject) =>
+                (
+                    entry as FileSystemFileEntry
+                ).file(resolve, reject)
+        );
+        files.push(
+            new File(
+                [file],
+                entry.fullPath.replace(/^\//, ""),
+                {
+                    type: file.type,
+                    lastModified:
+                        file.lastModified,
+                }
+            )
+        );
+        return;
+    }
+    if (!entry.isDirectory) return;
+    const reader = (
+        entry as FileSystemDirectoryEntry
+    ).createReader();
+    for (;;) {
+        const batch = await readEntries(reader);
+        if (!batch.length) break;
+        for (const child of batch) {
+            await collectEntry(child, files);
+        }
+    }
+}
+
+export async function collectDroppedFiles(
+    dataTransfer: DataTransfer
+) {
+    const entries = Array.from(dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry?.())
+        .filter(
+            (entry): entry is FileSystemEntry =>
+                !!entry
+        );
+    if (!entries.length) {
+        return Array.from(
+            dataTransfer.files
+        ).filter(isMediaFile);
+    }
+    const files: File[] = [];
+    for (const entry of entries) {
+        await collectEntry(entry, files);
+    }
+    return files.filter(isMediaFile);
+}
+
+export function uniqueOutputName(
+    fileName: string,
+    used: Set<string>
+) {
+    const base =
+        fileName
+            .replace(/\.[^./]+$/, "")
+            .replace(/[\\:*?"<>|]+/g, "_") ||
+        "image";
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+        name = `${base}-${i}`;
+    }
+    used.add(name);
+    return name;
+}
+
+export class ConversionClient {
+    private worker = new Worker(
+        new URL(
+            "../workers/convert.worker.ts",
+            import.meta.url
+        ),
+        { type: "module" }
+    );
+    private jobId = 0;
+
+    convert(
+        source: ConversionSource,
+        settings: ConversionSettings
+    ) {
+        const jobId = ++this.jobId;
+        return new Promise<ConversionResult>(
+            (resolve, reject) => {
+                this.worker.onmessage = (
+                    event: MessageEvent<ConvertResponse>
+                ) => {
+                    const message = event.data;
+                    if (message.jobId !== jobId)
+                        return;
+                    if (
+                        message.type === "result"
+                    ) {
+                        resolve(message);
+                    } else if (
+                        message.type === "error"
+                    ) {
+                        reject(
+                            new Error(
+                                message.message
+                            )
+                        );
+                    }
+                };
+                this.worker.onerror = (event) =>
+                    reject(
+                        new Error(
+                            event.message ||
+                                "The conversion worker stopped unexpectedly."
+                        )
+                    );
+                this.worker.postMessage(
+                    {
+                        type: "source",
+                        source,
+                    } satisfies ConvertRequest,
+                    getSourceTransfer(source)
+                );
+                this.worker.postMessage({
+                    type: "convert",
+                    jobId,
+                    settings,
+                } satisfies ConvertRequest);
+            }
+        );
+    }
+
+    dispose() {
+        this.worker.terminate();
+    }
+}
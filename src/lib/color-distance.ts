@@ -0,0 +1,310 @@
+import type { PaletteEntry } from "@/lib/quantize";
+
+export type DistanceMetric =
+    | "rgb"
+    | "redmean"
+    | "cie76"
+    | "ciede2000"
+    | "oklab";
+
+export const DISTANCE_METRICS: {
+    id: DistanceMetric;
+    label: string;
+}[] = [
+    { id: "rgb", label: "RGB" },
+    { id: "redmean", label: "Weighted RGB" },
+    { id: "cie76", label: "CIELAB ΔE76" },
+    { id: "ciede2000", label: "CIELAB ΔE2000" },
+    { id: "oklab", label: "OKLab" },
+];
+
+export type PaletteMatcher = (
+    r: number,
+    g: number,
+    b: number
+) => number;
+
+type Triplet = [number, number, number];
+
+const srgbToLinear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045
+        ? c / 12.92
+        : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+export function rgbToLab(
+    r: number,
+    g: number,
+    b: number
+): Triplet {
+    const lr = srgbToLinear(r);
+    const lg = srgbToLinear(g);
+    const lb = srgbToLinear(b);
+    const x =
+        (0.4124564 * lr +
+            0.3575761 * lg +
+            0.1804375 * lb) /
+        0.95047;
+    const y =
+        0.2126729 * lr +
+        0.7151522 * lg +
+        0.072175 * lb;
+    const z =
+        (0.0193339 * lr +
+            0.119192 * lg +
+            0.9503041 * lb) /
+        1.08883;
+    const f = (t: number) =>
+        t > 0.008856
+            ? Math.cbrt(t)
+            : 7.787 * t + 16 / 116;
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+    return [
+        116 * fy - 16,
+        500 * (fx - fy),
+        200 * (fy - fz),
+    ];
+}
+
+export function rgbToOklab(
+    r: number,
+    g: number,
+    b: number
+): Triplet {
+    const lr = srgbToLinear(r);
+    const lg = srgbToLinear(g);
+    const lb = srgbToLinear(b);
+    const l = Math.cbrt(
+        0.4122214708 * lr +
+            0.5363325363 * lg +
+            0.0514459929 * lb
+    );
+    const m = Math.cbrt(
+        0.2119034982 * lr +
+            0.6806995451 * lg +
+            0.1073969566 * lb
+    );
+    const s = Math.cbrt(
+        0.0883024619 * lr +
+            0.2817188376 * lg +
+            0.6299787005 * lb
+    );
+    return [
+        0.2104542553 * l +
+            0.793617785 * m -
+            0.0040720468 * s,
+        1.9779984951 * l -
+            2.428592205 * m +
+            0.4505937099 * s,
+        0.0259040371 * l +
+            0.7827717662 * m -
+            0.808675766 * s,
+    ];
+}
+
+const squaredDistance = (
+    [a1, b1, c1]: Triplet,
+    [a2, b2, c2]: Triplet
+) =>
+    (a1 - a2) ** 2 +
+    (b1 - b2) ** 2 +
+    (c1 - c2) ** 2;
+
+const redmeanDistance = (
+    [r1, g1, b1]: Triplet,
+    [r2, g2, b2]: Triplet
+) => {
+    const mean = (r1 + r2) / 2;
+    return (
+        (2 + mean / 256) * (r1 - r2) ** 2 +
+        4 * (g1 - g2) ** 2 +
+        (2 + (255 - mean) / 256) * (b1 - b2) ** 2
+    );
+};
+
+const toRadians = (deg: number) =>
+    (deg * Math.PI) / 180;
+const toDegrees = (rad: number) =>
+    (rad * 180) / Math.PI;
+
+export function deltaE2000(
+    [l1, a1, b1]: Triplet,
+    [l2, a2, b2]: Triplet
+) {
+    const c1 = Math.hypot(a1, b1);
+    const c2 = Math.hypot(a2, b2);
+    const cMean = (c1 + c2) / 2;
+    const g =
+        0.5 *
+        (1 -
+            Math.sqrt(
+                cMean ** 7 /
+                    (cMean ** 7 + 25 ** 7)
+            ));
+    const a1p = a1 * (1 + g);
+    const a2p = a2 * (1 + g);
+    const c1p = Math.hypot(a1p, b1);
+    const c2p = Math.hypot(a2p, b2);
+    const hue = (b: number, a: number) => {
+        if (a === 0 && b === 0) return 0;
+        const h = toDegrees(Math.atan2(b, a));
+        return h < 0 ? h + 360 : h;
+    };
+    const h1p = hue(b1, a1p);
+    const h2p = hue(b2, a2p);
+    const dLp = l2 - l1;
+    const dCp = c2p - c1p;
+    let dhp = 0;
+    if (c1p * c2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp =
+        2 *
+        Math.sqrt(c1p * c2p) *
+        Math.sin(toRadians(dhp / 2));
+    const lMean = (l1 + l2) / 2;
+    const cMeanP = (c1p + c2p) / 2;
+    let hMeanP = h1p + h2p;
+    if (c1p * c2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) {
+            hMeanP /= 2;
+        } else if (h1p + h2p < 360) {
+            hMeanP = (hMeanP + 360) / 2;
+        } else {
+            hMeanP = (hMeanP - 360) / 2;
+        }
+    }
+    const t =
+        1 -
+        0.17 * Math.cos(toRadians(hMeanP - 30)) +
+        0.24 * Math.cos(toRadians(2 * hMeanP)) +
+        0.32 *
+            Math.cos(toRadians(3 * hMeanP + 6)) -
+        0.2 *
+            Math.cos(toRadians(4 * hMeanP - 63));
+    const dTheta =
+        30 *
+        Math.exp(-(((hMeanP - 275) / 25) ** 2));
+    const rc =
+        2 *
+        Math.sqrt(
+            cMeanP ** 7 / (cMeanP ** 7 + 25 ** 7)
+        );
+    const sl =
+        1 +
+        (0.015 * (lMean - 50) ** 2) /
+            Math.sqrt(20 + (lMean - 50) ** 2);
+    const sc = 1 + 0.045 * cMeanP;
+    const sh = 1 + 0.015 * cMeanP * t;
+    const rt =
+        -Math.sin(toRadians(2 * dTheta)) * rc;
+    return Math.sqrt(
+        (dLp / sl) ** 2 +
+            (dCp / sc) ** 2 +
+            (dHp / sh) ** 2 +
+            rt * (dCp / sc) * (dHp / sh)
+    );
+}
+
+const METRIC_SPACES: Record<
+    DistanceMetric,
+    {
+        convert: (
+            r: number,
+            g: number,
+            b: number
+        ) => Triplet;
+        distance: (
+            a: Triplet,
+            b: Triplet
+        ) => number;
+    }
+> = {
+    rgb: {
+        convert: (r, g, b) => [r, g, b],
+        distance: squaredDistance,
+    },
+    redmean: {
+        convert: (r, g, b) => [r, g, b],
+        distance: redmeanDistance,
+    },
+    cie76: {
+        convert: rgbToLab,
+        distance: squaredDistance,
+    },
+    ciede2000: {
+        convert: rgbToLab,
+        distance: deltaE2000,
+    },
+    oklab: {
+        convert: rgbToOklab,
+        distance: squaredDistance,
+    },
+};
+
+const MATCH_CACHE_BITS = 16;
+const MATCH_CACHE_SIZE = 1 << MATCH_CACHE_BITS;
+
+export function createPaletteMatcher(
+    paletteData: PaletteEntry[],
+    metric: DistanceMetric = "rgb"
+): PaletteMatcher {
+    const { convert, distance } =
+        METRIC_SPACES[metric] ??
+        METRIC_SPACES.rgb;
+    const converted = paletteData.map(({ rgb }) =>
+        convert(rgb.r, rgb.g, rgb.b)
+    );
+    const cacheKeys = new Int32Array(
+        MATCH_CACHE_SIZE
+    ).fill(-1);
+    const cacheValues = new Int16Array(
+        MATCH_CACHE_SIZE
+    );
+    return (r, g, b) => {
+        const cr = Math.max(
+            0,
+            Math.min(255, Math.round(r))
+        );
+        const cg = Math.max(
+            0,
+            Math.min(255, Math.round(g))
+        );
+        const cb = Math.max(
+            0,
+            Math.min(255, Math.round(b))
+        );
+        const key = (cr << 16) | (cg << 8) | cb;
+        const slot =
+            Math.imul(key, 0x9e3779b1) >>>
+            (32 - MATCH_CACHE_BITS);
+        if (cacheKeys[slot] === key) {
+            return cacheValues[slot];
+        }
+        const target = convert(cr, cg, cb);
+        let closest = 0;
+        let best = Number.MAX_VALUE;
+        for (
+            let i = 0;
+            i < converted.length;
+            i++
+        ) {
+            const value = distance(
+                target,
+                converted[i]
+            );
+            if (value < best) {
+                best = value;
+                closest = i;
+            }
+        }
+        cacheKeys[slot] = key;
+        cacheValues[slot] = closest;
+        return closest;
+    };
+}
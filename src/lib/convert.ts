@@ -0,0 +1,938 @@
+import { hexToRgb } from "@/lib/utils";
+import {
+    TRANSPARENT_CELL,
+    createTemporalState,
+    quantizePixels,
+} from "@/lib/quantize";
+import type {
+    DitherMode,
+    PaletteEntry,
+} from "@/lib/quantize";
+import { createPaletteMatcher } from "@/lib/color-distance";
+import type {
+    DistanceMetric,
+    PaletteMatcher,
+} from "@/lib/color-distance";
+import {
+    clampFrameDelay,
+    getPlayCount,
+    normalizeLoopCount,
+} from "@/lib/gif-source";
+import type { GifSource } from "@/lib/gif-source";
+import type { GifTimeline } from "@/lib/timeline";
+import type { PaletteAlgorithm } from "@/lib/palette-extract";
+import {
+    applyAdjustments,
+    computeHistogram,
+} from "@/lib/adjustments";
+import type {
+    Histogram,
+    ImageAdjustments,
+} from "@/lib/adjustments";
+import { resamplePixels } from "@/lib/resample";
+import type { SampleFilter } from "@/lib/resample";
+import { applyOutline } from "@/lib/outline";
+import type { OutlineSettings } from "@/lib/outline";
+import {
+    getTransformedSize,
+    transformFrame,
+} from "@/lib/transform";
+import type { SourceTransform } from "@/lib/transform";
+import { encodeIndexedPng } from "@/lib/png";
+import { encodeIndexedApng } from "@/lib/apng";
+import { encodeAnimatedWebp } from "@/lib/webp";
+import { encodeOptimizedGif } from "@/lib/gif-encoder";
+
+export type RasterFormat =
+    | "image/png"
+    | "image/gif"
+    | "image/apng"
+    | "image/webp";
+
+export const RASTER_FORMATS: {
+    id: RasterFormat;
+    label: string;
+    extension: string;
+    animated: boolean;
+}[] = [
+    {
+        id: "image/png",
+        label: "PNG",
+        extension: "png",
+        animated: false,
+    },
+    {
+        id: "image/gif",
+        label: "GIF",
+        extension: "gif",
+        animated: true,
+    },
+    {
+        id: "image/apng",
+        label: "APNG",
+        extension: "png",
+        animated: true,
+    },
+    {
+        id: "image/webp",
+        label: "WebP",
+        extension: "webp",
+        animated: true,
+    },
+];
+
+export const isAnimatedFormat = (
+    format: RasterFormat
+) =>
+    RASTER_FORMATS.find(
+        (entry) => entry.id === format
+    )?.animated ?? false;
+
+export type ConversionSettings = {
+    paletteId: string;
+    paletteHex: string[];
+    distanceMetric: DistanceMetric;
+    dither: DitherMode;
+    ditherStrength: number;
+    alphaThreshold: number;
+    adjustments: ImageAdjustments;
+    sampleFilter: SampleFilter;
+    outline: OutlineSettings;
+    transform: SourceTransform;
+    resolution: number;
+    pixelSize: number;
+    outputFormat: RasterFormat;
+    temporalThreshold: number;
+};
+
+export type ConversionSource =
+    | { kind: "frames"; gif: GifSource }
+    | { kind: "bitmap"; bitmap: ImageBitmap };
+
+export type ConversionProgress = {
+    phase: "quantize" | "encode";
+    done: number;
+    total: number;
+};
+
+export type ConvertedFrame = {
+    colors: string[][];
+    delay: number;
+};
+
+export type ConversionResult = {
+    blob: Blob;
+    colors: string[][];
+    frames: ConvertedFrame[];
+    width: number;
+    height: number;
+    pixelSize: number;
+    histogram: Histogram;
+    notice: string;
+};
+
+export type RasterExport = {
+    frames: ConvertedFrame[];
+    paletteHex: string[];
+    text: Record<string, string>;
+    pixelSize: number;
+    format: RasterFormat;
+    loopCount: number | null;
+};
+
+export type ConvertRequest =
+    | { type: "source"; source: ConversionSource }
+    | { type: "timeline"; timeline: GifTimeline }
+    | { type: "clear" }
+    | {
+          type: "convert";
+          jobId: number;
+          settings: ConversionSettings;
+      }
+    | {
+          type: "export";
+          jobId: number;
+          raster: RasterExport;
+      }
+    | { type: "cancel-export" }
+    | {
+          type: "palette";
+          jobId: number;
+          algorithm: PaletteAlgorithm;
+          colorCount: number;
+          transform: SourceTransform;
+      };
+
+export type ConvertResponse =
+    | ({
+          type: "progress";
+          jobId: number;
+      } & ConversionProgress)
+    | ({
+          type: "result";
+          jobId: number;
+      } & ConversionResult)
+    | {
+          type: "error";
+          jobId: number;
+          message: string;
+      }
+    | ({
+          type: "export-progress";
+          jobId: number;
+      } & ConversionProgress)
+    | {
+          type: "export-result";
+          jobId: number;
+          blob: Blob;
+      }
+    | {
+          type: "export-error";
+          jobId: number;
+          message: string;
+      }
+    | {
+          type: "palette-result";
+          jobId: number;
+          colors: string[];
+      }
+    | {
+          type: "palette-error";
+          jobId: number;
+          message: string;
+      };
+
+export class ConversionCancelledError extends Error {
+    constructor() {
+        super("Conversion was cancelled.");
+        this.name = "ConversionCancelledError";
+    }
+}
+
+const MAX_ANIMATION_PIXELS = 4_000_000;
+const MAX_FRAME_PIXELS = 16_777_216;
+
+export function getSourceTransfer(
+    source: ConversionSource
+): Transferable[] {
+    return source.kind === "frames"
+        ? Array.from(
+              new Set(
+                  source.gif.frames.map(
+                      (frame) =>
+                          frame.pixels
+                              .buffer as ArrayBuffer
+                  )
+              )
+          )
+        : [];
+}
+
+export function getSafeAnimationPixelSize(
+    sampleWidth: number,
+    sampleHeight: number,
+    frameCount: number,
+    desiredPixelSize: number
+) {
+    const frameArea = sampleWidth * sampleHeight;
+    if (
+        frameArea <= 0 ||
+        !Number.isFinite(frameArea) ||
+        frameCount <= 0
+    ) {
+        return Math.max(1, desiredPixelSize);
+    }
+    const maxPixelSize = Math.floor(
+        Math.sqrt(
+            MAX_ANIMATION_PIXELS /
+                Math.max(
+                    frameArea * frameCount,
+                    1
+                )
+        )
+    );
+    if (
+        !Number.isFinite(maxPixelSize) ||
+        maxPixelSize <= 0
+    ) {
+        return 1;
+    }
+    return Math.max(
+        1,
+        Math.min(desiredPixelSize, maxPixelSize)
+    );
+}
+
+export function getSafeExportPixelSize(
+    format: RasterFormat,
+    sampleWidth: number,
+    sampleHeight: number,
+    frameCount: number,
+    desiredPixelSize: number
+) {
+    if (
+        format === "image/apng" ||
+        format === "image/webp"
+    ) {
+        return getSafeAnimationPixelSize(
+            sampleWidth,
+            sampleHeight,
+            frameCount,
+            desiredPixelSize
+        );
+    }
+    const maxPixelSize = Math.floor(
+        Math.sqrt(
+            MAX_FRAME_PIXELS /
+                Math.max(
+                    sampleWidth * sampleHeight,
+                    1
+                )
+        )
+    );
+    return Math.max(
+        1,
+        Math.min(desiredPixelSize, maxPixelSize)
+    );
+}
+
+export function buildPaletteLookup(
+    palette: string[],
+    reserveTransparent = false
+) {
+    const normalizedPalette = Array.from(
+        new Set(
+            (palette.length
+                ? palette
+                : ["#000000", "#ffffff"]
+            ).map((hex) => hex.toLowerCase())
+        )
+    );
+    if (!normalizedPalette.length) {
+        normalizedPalette.push(
+            "#000000",
+            "#ffffff"
+        );
+    } else if (normalizedPalette.length === 1) {
+        normalizedPalette.push(
+            normalizedPalette[0]
+        );
+    }
+    const cappedLength = Math.min(
+        reserveTransparent ? 255 : 256,
+        normalizedPalette.length
+    );
+    const targetSize = Math.max(
+        2,
+        1 <<
+            Math.ceil(
+                Math.log2(
+                    Math.max(
+                        2,
+                        cappedLength +
+                            (reserveTransparent
+                                ? 1
+                                : 0)
+                    )
+                )
+            )
+    );
+    const paddedPalette = normalizedPalette.slice(
+        0,
+        cappedLength
+    );
+    const fallbackHex =
+        paddedPalette[paddedPalette.length - 1];
+    const transparentIndex = reserveTransparent
+        ? paddedPalette.length
+        : null;
+    while (paddedPalette.length < targetSize) {
+        paddedPalette.push(fallbackHex);
+    }
+    const paletteColors = paddedPalette.map(
+        (hex) => {
+            const { r, g, b } = hexToRgb(hex);
+            return (r << 16) | (g << 8) | b;
+        }
+    );
+    const colorIndexMap = new Map<
+        string,
+        number
+    >();
+    paddedPalette.forEach((hex, index) => {
+        if (index === transparentIndex) return;
+        if (!colorIndexMap.has(hex)) {
+            colorIndexMap.set(hex, index);
+        }
+    });
+    const fallbackIndex =
+        colorIndexMap.get(fallbackHex) ?? 0;
+    return {
+        paletteColors,
+        colorIndexMap,
+        fallbackIndex,
+        transparentIndex,
+    };
+}
+
+export function colorGridToIndexedPixels({
+    colors,
+    pixelSize,
+    colorIndexMap,
+    fallbackIndex,
+    transparentIndex = null,
+}: {
+    colors: string[][];
+    pixelSize: number;
+    colorIndexMap: Map<string, number>;
+    fallbackIndex: number;
+    transparentIndex?: number | null;
+}) {
+    const sampleHeight = colors.length;
+    const sampleWidth = colors[0]?.length ?? 0;
+    if (sampleHeight === 0 || sampleWidth === 0) {
+        throw new Error("Color grid is empty.");
+    }
+    const finalWidth = sampleWidth * pixelSize;
+    const finalHeight = sampleHeight * pixelSize;
+    const indexedPixels = new Uint8Array(
+        finalWidth * finalHeight
+    );
+    for (let y = 0; y < sampleHeight; y++) {
+        for (let dy = 0; dy < pixelSize; dy++) {
+            const row = y * pixelSize + dy;
+            const rowOffset = row * finalWidth;
+            for (
+                let x = 0;
+                x < sampleWidth;
+                x++
+            ) {
+                const colorHex =
+                    colors[y]?.[
+                        x
+                    ]?.toLowerCase() ?? "";
+                const paletteIndex =
+                    colorHex ===
+                        TRANSPARENT_CELL &&
+                    transparentIndex !== null
+                        ? transparentIndex
+                        : (colorIndexMap.get(
+                              colorHex
+                          ) ?? fallbackIndex);
+                for (
+                    let dx = 0;
+                    dx < pixelSize;
+                    dx++
+                ) {
+                    const column =
+                        x * pixelSize + dx;
+                    indexedPixels[
+                        rowOffset + column
+                    ] = paletteIndex;
+                }
+            }
+        }
+    }
+    return indexedPixels;
+}
+
+export function buildPngText(
+    settings: Pick<
+        ConversionSettings,
+        "paletteId" | "dither" | "distanceMetric"
+    >,
+    columns: number,
+    pixelSize: number
+): Record<string, string> {
+    return {
+        Software: "8-bit Studio",
+        Palette: settings.paletteId,
+        Columns: String(columns),
+        "Pixel Size": String(pixelSize),
+        Dither: settings.dither,
+        "Color Metric": settings.distanceMetric,
+    };
+}
+
+export function encodeColorGridPng({
+    colors,
+    paletteHex,
+    pixelSize,
+    text = { Software: "8-bit Studio" },
+}: {
+    colors: string[][];
+    paletteHex: string[];
+    pixelSize: number;
+    text?: Record<string, string>;
+}) {
+    const {
+        paletteColors,
+        colorIndexMap,
+        fallbackIndex,
+        transparentIndex,
+    } = buildPaletteLookup(
+        paletteHex,
+        colors.some((row) =>
+            row.includes(TRANSPARENT_CELL)
+        )
+    );
+    return encodeIndexedPng({
+        width:
+            (colors[0]?.length ?? 0) * pixelSize,
+        height: colors.length * pixelSize,
+        indices: colorGridToIndexedPixels({
+            colors,
+            pixelSize,
+            colorIndexMap,
+            fallbackIndex,
+            transparentIndex,
+        }),
+        palette: paletteColors,
+        transparentIndex,
+        text,
+    });
+}
+
+export function getSampleSize(
+    sourceWidth: number,
+    sourceHeight: number,
+    resolution: number
+) {
+    const aspect =
+        sourceHeight / sourceWidth || 1;
+    const sampleWidth = Math.max(8, resolution);
+    const sampleHeight = Math.max(
+        8,
+        Math.round(sampleWidth * aspect)
+    );
+    return { sampleWidth, sampleHeight };
+}
+
+export function readSourceFrames(
+    source: ConversionSource
+): GifSource {
+    if (source.kind === "frames") {
+        return source.gif;
+    }
+    const { bitmap } = source;
+    const canvas = new OffscreenCanvas(
+        bitmap.width,
+        bitmap.height
+    );
+    const ctx = canvas.getContext("2d", {
+        willReadFrequently: true,
+    });
+    if (!ctx) {
+        throw new Error(
+            "Unable to create a sample canvas."
+        );
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    return {
+        width: bitmap.width,
+        height: bitmap.height,
+        loopCount: null,
+        frames: [
+            {
+                pixels: ctx.getImageData(
+                    0,
+                    0,
+                    bitmap.width,
+                    bitmap.height
+                ).data,
+                delay: 0,
+            },
+        ],
+    };
+}
+
+function indicesToRgba(
+    indices: Uint8Array,
+    palette: number[],
+    transparentIndex: number | null
+) {
+    const rgba = new Uint8ClampedArray(
+        indices.length * 4
+    );
+    indices.forEach((index, i) => {
+        if (index === transparentIndex) return;
+        const color = palette[index];
+        rgba[i * 4] = (color >> 16) & 0xff;
+        rgba[i * 4 + 1] = (color >> 8) & 0xff;
+        rgba[i * 4 + 2] = color & 0xff;
+        rgba[i * 4 + 3] = 255;
+    });
+    return rgba;
+}
+
+export async function encodeAnimation({
+    frames,
+    paletteHex,
+    text,
+    pixelSize,
+    format,
+    loopCount,
+    checkpoint = async () => {},
+    onProgress,
+}: RasterExport & {
+    checkpoint?: () => Promise<void>;
+    onProgress?: (
+        progress: ConversionProgress
+    ) => void;
+}) {
+    const frameCount = frames.length;
+    const sampleHeight =
+        frames[0]?.colors.length ?? 0;
+    const sampleWidth =
+        frames[0]?.colors[0]?.length ?? 0;
+    const hasTransparency = frames.some(
+        ({ colors }) =>
+            colors.some((row) =>
+                row.includes(TRANSPARENT_CELL)
+            )
+    );
+    const {
+        paletteColors,
+        colorIndexMap,
+        fallbackIndex,
+        transparentIndex,
+    } = buildPaletteLookup(
+        paletteHex,
+        hasTransparency ||
+            (format === "image/gif" &&
+                new Set(
+                    paletteHex.map((hex) =>
+                        hex.toLowerCase()
+                    )
+                ).size < 256)
+    );
+    const finalWidth = sampleWidth * pixelSize;
+    const finalHeight = sampleHeight * pixelSize;
+    const indexFrames = async (scale: number) => {
+        const indexedFrames: Uint8Array[] = [];
+        for (let i = 0; i < frameCount; i++) {
+            await checkpoint();
+            indexedFrames.push(
+                colorGridToIndexedPixels({
+                    colors: frames[i].colors,
+                    pixelSize: scale,
+                    colorIndexMap,
+                    fallbackIndex,
+                    transparentIndex,
+                })
+            );
+        }
+        return indexedFrames;
+    };
+    const delays = frames.map((frame) =>
+        clampFrameDelay(frame.delay)
+    );
+    const reportEncoded = async (
+        index: number
+    ) => {
+        await checkpoint();
+        onProgress?.({
+            phase: "encode",
+            done: index,
+            total: frameCount,
+        });
+    };
+    let blob: Blob;
+    if (format === "image/apng") {
+        const indexedFrames =
+            await indexFrames(pixelSize);
+        blob = await encodeIndexedApng({
+            width: finalWidth,
+            height: finalHeight,
+            frames: indexedFrames.map(
+                (indices, i) => ({
+                    indices,
+                    delay: delays[i],
+                })
+            ),
+            palette: paletteColors,
+            transparentIndex,
+            playCount: getPlayCount(loopCount),
+            text,
+            checkpoint: reportEncoded,
+        });
+    } else if (format === "image/webp") {
+        const indexedFrames =
+            await indexFrames(pixelSize);
+        blob = await encodeAnimatedWebp({
+            width: finalWidth,
+            height: finalHeight,
+            frames: indexedFrames.map(
+                (indices, i) => ({
+                    pixels: indicesToRgba(
+                        indices,
+                        paletteColors,
+                        transparentIndex
+                    ),
+                    duration: delays[i] * 10,
+                })
+            ),
+            loopCount: getPlayCount(loopCount),
+            checkpoint: reportEncoded,
+        });
+    } else {
+        const cellFrames = await indexFrames(1);
+        blob = await encodeOptimizedGif({
+            width: sampleWidth,
+            height: sampleHeight,
+            pixelSize,
+            frames: cellFrames.map(
+                (cells, i) => ({
+                    cells,
+                    delay: delays[i],
+                })
+            ),
+            palette: paletteColors,
+            transparentIndex,
+            loop: normalizeLoopCount(loopCount),
+            checkpoint: reportEncoded,
+        });
+    }
+    onProgress?.({
+        phase: "encode",
+        done: frameCount,
+        total: frameCount,
+    });
+    return blob;
+}
+
+export function encodeRasterExport({
+    frames,
+    paletteHex,
+    text,
+    pixelSize,
+    format,
+    ...options
+}: Parameters<typeof encodeAnimation>[0]) {
+    return format === "image/png"
+        ? encodeColorGridPng({
+              colors: frames[0].colors,
+              paletteHex,
+              pixelSize,
+              text,
+          })
+        : encodeAnimation({
+              frames,
+              paletteHex,
+              text,
+              pixelSize,
+              format,
+              ...options,
+          });
+}
+
+export async function runConversion({
+    source,
+    settings,
+    matcher,
+    checkpoint,
+    onProgress,
+}: {
+    source: ConversionSource;
+    settings: ConversionSettings;
+    matcher?: PaletteMatcher;
+    checkpoint: () => Promise<void>;
+    onProgress: (
+        progress: ConversionProgress
+    ) => void;
+}): Promise<ConversionResult> {
+    const paletteData: PaletteEntry[] =
+        settings.paletteHex.map((hex) => ({
+            hex,
+            rgb: hexToRgb(hex),
+        }));
+    if (!paletteData.length) {
+        throw new Error("Palette has no colors.");
+    }
+    const paletteMatcher =
+        matcher ??
+        createPaletteMatcher(
+            paletteData,
+            settings.distanceMetric
+        );
+    const gif = readSourceFrames(source);
+    const {
+        width: sourceWidth,
+        height: sourceHeight,
+    } = getTransformedSize(
+        gif.width,
+        gif.height,
+        settings.transform
+    );
+    const { sampleWidth, sampleHeight } =
+        getSampleSize(
+            sourceWidth,
+            sourceHeight,
+            settings.resolution
+        );
+    const { frames } = gif;
+    const animate =
+        isAnimatedFormat(settings.outputFormat) &&
+        source.kind === "frames";
+    const frameCount = animate
+        ? frames.length
+        : 1;
+    if (!frameCount) {
+        throw new Error(
+            "GIF contains no valid frames."
+        );
+    }
+
+    const quantizedFrames: ReturnType<
+        typeof quantizePixels
+    >[] = [];
+    let histogram: Histogram | null = null;
+    const temporal =
+        frameCount > 1 &&
+        settings.temporalThreshold > 0
+            ? {
+                  state: createTemporalState(
+                      sampleWidth * sampleHeight
+                  ),
+                  threshold:
+                      settings.temporalThreshold,
+              }
+            : undefined;
+    const adjustFirst =
+        settings.sampleFilter === "mode";
+    for (let i = 0; i < frameCount; i++) {
+        await checkpoint();
+        let pixels = transformFrame(
+            frames[i].pixels,
+            gif.width,
+            gif.height,
+            settings.transform
+        ).pixels;
+        if (adjustFirst) {
+            pixels = applyAdjustments(
+                pixels,
+                sourceWidth,
+                sourceHeight,
+                settings.adjustments
+            );
+            histogram ??=
+                computeHistogram(pixels);
+        }
+        const resampled = resamplePixels({
+            pixels,
+            sourceWidth,
+            sourceHeight,
+            sampleWidth,
+            sampleHeight,
+            filter: settings.sampleFilter,
+            paletteData,
+            matcher: paletteMatcher,
+            alphaThreshold:
+                settings.alphaThreshold,
+        });
+        const sampled = adjustFirst
+            ? resampled
+            : applyAdjustments(
+                  resampled,
+                  sampleWidth,
+                  sampleHeight,
+                  settings.adjustments
+              );
+        histogram ??= computeHistogram(sampled);
+        const frame = quantizePixels({
+            pixels: sampled,
+            width: sampleWidth,
+            height: sampleHeight,
+            paletteData,
+            dither: settings.dither,
+            ditherStrength:
+                settings.ditherStrength,
+            matcher: paletteMatcher,
+            alphaThreshold:
+                settings.alphaThreshold,
+            temporal,
+        });
+        if (settings.outline.mode !== "none") {
+            frame.colorGrid = applyOutline(
+                frame.colorGrid,
+                paletteData,
+                settings.outline
+            );
+        }
+        quantizedFrames.push(frame);
+        onProgress({
+            phase: "quantize",
+            done: i + 1,
+            total: frameCount,
+        });
+    }
+
+    const convertedFrames = quantizedFrames.map(
+        ({ colorGrid }, i) => ({
+            colors: colorGrid,
+            delay: frames[i].delay,
+        })
+    );
+
+    if (!animate || source.kind !== "frames") {
+        const [{ colorGrid }] = quantizedFrames;
+        await checkpoint();
+        const blob = await encodeColorGridPng({
+            colors: colorGrid,
+            paletteHex: settings.paletteHex,
+            pixelSize: settings.pixelSize,
+            text: buildPngText(
+                settings,
+                sampleWidth,
+                settings.pixelSize
+            ),
+        });
+        return {
+            blob,
+            colors: colorGrid,
+            frames: convertedFrames,
+            width: sampleWidth,
+            height: sampleHeight,
+            pixelSize: settings.pixelSize,
+            histogram: histogram!,
+            notice: "",
+        };
+    }
+
+    const safePixelSize =
+        settings.outputFormat === "image/gif"
+            ? settings.pixelSize
+            : getSafeAnimationPixelSize(
+                  sampleWidth,
+                  sampleHeight,
+                  frameCount,
+                  settings.pixelSize
+              );
+    const blob = await encodeAnimation({
+        frames: convertedFrames,
+        paletteHex: settings.paletteHex,
+        text: buildPngText(
+            settings,
+            sampleWidth,
+            safePixelSize
+        ),
+        pixelSize: safePixelSize,
+        format: settings.outputFormat,
+        loopCount: source.gif.loopCount,
+        checkpoint,
+        onProgress,
+    });
+    return {
+        blob,
+        colors: quantizedFrames[0].colorGrid,
+        frames: convertedFrames,
+        width: sampleWidth,
+        height: sampleHeight,
+        pixelSize: settings.pixelSize,
+        histogram: histogram!,
+        notice:
+            safePixelSize < settings.pixelSize
+                ? "Animated output is large; pixel size was reduced automatically."
+                : "",
+    };
+}
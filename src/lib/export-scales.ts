@@ -0,0 +1,60 @@
+export const DEFAULT_NAME_TEMPLATE =
+    "{name}-{palette}-{scale}x";
+
+export const PRESET_SCALES = [1, 2, 4];
+
+export const MAX_EXPORT_SCALE = 64;
+
+const UNSAFE_NAME_CHARS = /[\\/:*?"<>|]+/g;
+
+export function formatExportName(
+    template: string,
+    {
+        name,
+        palette,
+        scale,
+    }: {
+        name: string;
+        palette: string;
+        scale: number;
+    }
+) {
+    const values: Record<string, string> = {
+        name,
+        palette,
+        scale: String(scale),
+    };
+    const formatted = template
+        .replace(
+            /\{(\w+)\}/g,
+            (token, key: string) =>
+                values[key] ?? token
+        )
+        .replace(UNSAFE_NAME_CHARS, "_")
+        .trim();
+    return (
+        formatted ||
+        `${name}-${palette}-${scale}x`
+    );
+}
+
+export const scaleForWidth = (
+    targetWidth: number,
+    width: number
+) =>
+    Math.max(
+        1,
+        Math.min(
+            MAX_EXPORT_SCALE,
+            Math.floor(targetWidth / width)
+        )
+    );
+
+export function stripExtension(fileName: string) {
+    return (
+        fileName
+            .replace(/^.*[\\/]/, "")
+            .replace(/\.[^.]+$/, "") ||
+        "pixel-art"
+    );
+}
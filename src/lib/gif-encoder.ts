@@ -0,0 +1,285 @@
+import { GifWriter } from "omggif";
+
+export type GifCellFrame = {
+    cells: Uint8Array;
+    delay: number;
+};
+
+type Rect = {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+};
+
+type PendingFrame = {
+    cells: Uint8Array;
+    base: Uint8Array | null;
+    rect: Rect;
+    delay: number;
+    disposal: number;
+};
+
+const DISPOSE_KEEP = 1;
+const DISPOSE_BACKGROUND = 2;
+const MAX_DELAY = 65535;
+const HEADER_BYTES = 13 + 256 * 3 + 19;
+const FRAME_OVERHEAD_BYTES = 64;
+
+function findBounds(
+    width: number,
+    height: number,
+    test: (index: number) => boolean
+): Rect | null {
+    let x0 = width;
+    let y0 = height;
+    let x1 = -1;
+    let y1 = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!test(y * width + x)) continue;
+            if (x < x0) x0 = x;
+            if (x > x1) x1 = x;
+            if (y < y0) y0 = y;
+            y1 = y;
+        }
+    }
+    return x1 < 0
+        ? null
+        : { x0, y0, x1: x1 + 1, y1: y1 + 1 };
+}
+
+const unionRect = (a: Rect, b: Rect): Rect => ({
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1),
+});
+
+function clearRect(
+    cells: Uint8Array,
+    width: number,
+    rect: Rect,
+    value: number
+) {
+    const cleared = cells.slice();
+    for (let y = rect.y0; y < rect.y1; y++) {
+        cleared.fill(
+            value,
+            y * width + rect.x0,
+            y * width + rect.x1
+        );
+    }
+    return cleared;
+}
+
+export async function encodeOptimizedGif({
+    width,
+    height,
+    pixelSize,
+    frames,
+    palette,
+    transparentIndex,
+    loop,
+    checkpoint,
+}: {
+    width: number;
+    height: number;
+    pixelSize: number;
+    frames: GifCellFrame[];
+    palette: number[];
+    transparentIndex: number | null;
+    loop: number;
+    checkpoint?: (index: number) => Promise<void>;
+}) {
+    const header = new Uint8Array(HEADER_BYTES);
+    const writer = new GifWriter(
+        header,
+        width * pixelSize,
+        height * pixelSize,
+        { palette, loop }
+    );
+    const parts: Uint8Array<ArrayBuffer>[] = [
+        header.slice(
+            0,
+            writer.getOutputBufferPosition()
+        ),
+    ];
+    let scratch = new Uint8Array(0);
+    let written = 0;
+
+    const writeFrame = async ({
+        cells,
+        base,
+        rect,
+        delay,
+        disposal,
+    }: PendingFrame) => {
+        const cellWidth = rect.x1 - rect.x0;
+        const frameWidth = cellWidth * pixelSize;
+        const frameHeight =
+            (rect.y1 - rect.y0) * pixelSize;
+        const pixels = new Uint8Array(
+            frameWidth * frameHeight
+        );
+        const row = new Uint8Array(frameWidth);
+        for (let y = rect.y0; y < rect.y1; y++) {
+            for (
+                let x = rect.x0;
+                x < rect.x1;
+                x++
+            ) {
+                const index = y * width + x;
+                const value =
+                    base &&
+                    transparentIndex !== null &&
+                    base[index] === cells[index]
+                        ? transparentIndex
+                        : cells[index];
+                row.fill(
+                    value,
+                    (x - rect.x0) * pixelSize,
+                    (x - rect.x0 + 1) * pixelSize
+                );
+            }
+            const top =
+                (y - rect.y0) *
+                pixelSize *
+                frameWidth;
+            for (
+                let dy = 0;
+                dy < pixelSize;
+                dy++
+            ) {
+                pixels.set(
+                    row,
+                    top + dy * frameWidth
+                );
+            }
+        }
+        const bound =
+            pixels.length * 2 +
+            FRAME_OVERHEAD_BYTES;
+        if (scratch.length < bound) {
+            scratch = new Uint8Array(bound);
+        }
+        writer.setOutputBuffer(scratch);
+        writer.setOutputBufferPosition(0);
+        writer.addFrame(
+            rect.x0 * pixelSize,
+            rect.y0 * pixelSize,
+            frameWidth,
+            frameHeight,
+            pixels,
+            {
+                delay,
+                disposal,
+                ...(transparentIndex !== null
+                    ? {
+                          transparent:
+                              transparentIndex,
+                      }
+                    : {}),
+            }
+        );
+        parts.push(
+            scratch.slice(
+                0,
+                writer.getOutputBufferPosition()
+            )
+        );
+        await checkpoint?.(++written);
+    };
+
+    const full: Rect = {
+        x0: 0,
+        y0: 0,
+        x1: width,
+        y1: height,
+    };
+    const scheduleClear = (
+        pending: PendingFrame,
+        next: Uint8Array
+    ) => {
+        if (transparentIndex === null) {
+            return pending.cells;
+        }
+        const clearBox = findBounds(
+            width,
+            height,
+            (index) =>
+                next[index] ===
+                    transparentIndex &&
+                pending.cells[index] !==
+                    transparentIndex
+        );
+        if (!clearBox) return pending.cells;
+        pending.rect = unionRect(
+            pending.rect,
+            clearBox
+        );
+        pending.disposal = DISPOSE_BACKGROUND;
+        return clearRect(
+            pending.cells,
+            width,
+            pending.rect,
+            transparentIndex
+        );
+    };
+
+    let pending: PendingFrame | null = null;
+    for (const frame of frames) {
+        if (!pending) {
+            pending = {
+                cells: frame.cells,
+                base: null,
+                rect: full,
+                delay: frame.delay,
+                disposal: DISPOSE_KEEP,
+            };
+            continue;
+        }
+        const before = scheduleClear(
+            pending,
+            frame.cells
+        );
+        const changed = findBounds(
+            width,
+            height,
+            (index) =>
+                frame.cells[index] !==
+                before[index]
+        );
+        if (
+            !changed &&
+            pending.disposal === DISPOSE_KEEP &&
+            pending.delay + frame.delay <=
+                MAX_DELAY
+        ) {
+            pending.delay += frame.delay;
+            continue;
+        }
+        await writeFrame(pending);
+        pending = {
+            cells: frame.cells,
+            base: before,
+            rect: changed ?? {
+                x0: 0,
+                y0: 0,
+                x1: 1,
+                y1: 1,
+            },
+            delay: frame.delay,
+            disposal: DISPOSE_KEEP,
+        };
+    }
+    if (!pending) {
+        throw new Error("GIF contains no frames");
+    }
+    if (frames.length > 1) {
+        scheduleClear(pending, frames[0].cells);
+    }
+    await writeFrame(pending);
+    parts.push(new Uint8Array([0x3b]));
+    return new Blob(parts, { type: "image/gif" });
+}
@@ -0,0 +1,283 @@
+import { GifReader } from "omggif";
+import { sampleBox } from "@/lib/resample";
+import { formatBytes } from "@/lib/utils";
+
+export type GifFrameData = {
+    pixels: Uint8ClampedArray;
+    delay: number;
+};
+
+export type GifSource = {
+    width: number;
+    height: number;
+    loopCount: number | null;
+    frames: GifFrameData[];
+};
+
+export const DECODE_BUDGETS: {
+    id: string;
+    label: string;
+}[] = [
+    { id: "128", label: "128 MB" },
+    { id: "256", label: "256 MB" },
+    { id: "512", label: "512 MB" },
+    { id: "1024", label: "1 GB" },
+];
+
+export const DEFAULT_DECODE_BUDGET_MB = 256;
+
+const MIN_STORED_WIDTH = 384;
+const PREVIEW_FRAME_SIZE = 160;
+
+export class DecodeBudgetError extends Error {
+    constructor(
+        required: number,
+        budget: number
+    ) {
+        super(
+            `This animation needs at least ${formatBytes(
+                required
+            )} of frame memory, over the ${formatBytes(
+                budget
+            )} budget. Trim it or raise the memory budget, then load it again.`
+        );
+        this.name = "DecodeBudgetError";
+    }
+}
+
+export function getStoredFrameSize({
+    width,
+    height,
+    frameCount,
+    budgetBytes,
+    workingBytes = 0,
+}: {
+    width: number;
+    height: number;
+    frameCount: number;
+    budgetBytes: number;
+    workingBytes?: number;
+}) {
+    const preview = getPreviewSize(width, height);
+    const reservedBytes =
+        workingBytes +
+        preview.width *
+            preview.height *
+            4 *
+            frameCount;
+    const frameBudget =
+        (budgetBytes - reservedBytes) /
+        Math.max(1, frameCount);
+    const scale = Math.min(
+        1,
+        Math.sqrt(
+            Math.max(0, frameBudget) /
+                (width * height * 4)
+        )
+    );
+    const stored = {
+        width: Math.max(
+            1,
+            Math.floor(width * scale)
+        ),
+        height: Math.max(
+            1,
+            Math.floor(height * scale)
+        ),
+    };
+    const minWidth = Math.min(
+        width,
+        MIN_STORED_WIDTH
+    );
+    if (stored.width < minWidth) {
+        const minHeight = Math.max(
+            1,
+            Math.round(
+                (height * minWidth) / width
+            )
+        );
+        throw new DecodeBudgetError(
+            minWidth *
+                minHeight *
+                4 *
+                frameCount +
+                reservedBytes,
+            budgetBytes
+        );
+    }
+    return stored;
+}
+
+function getPreviewSize(
+    width: number,
+    height: number
+) {
+    const scale = Math.min(
+        1,
+        PREVIEW_FRAME_SIZE /
+            Math.max(width, height)
+    );
+    return {
+        width: Math.max(
+            1,
+            Math.round(width * scale)
+        ),
+        height: Math.max(
+            1,
+            Math.round(height * scale)
+        ),
+    };
+}
+
+export function createGifPreview(
+    gif: GifSource
+): GifSource {
+    const { width, height } = getPreviewSize(
+        gif.width,
+        gif.height
+    );
+    return {
+        ...gif,
+        width,
+        height,
+        frames: gif.frames.map((frame) => ({
+            pixels: sampleBox({
+                pixels: frame.pixels,
+                sourceWidth: gif.width,
+                sourceHeight: gif.height,
+                sampleWidth: width,
+                sampleHeight: height,
+            }),
+            delay: frame.delay,
+        })),
+    };
+}
+
+export function clampFrameDelay(delay: number) {
+    if (!Number.isFinite(delay) || delay <= 0) {
+        return 6;
+    }
+    return Math.max(
+        1,
+        Math.min(65535, Math.round(delay))
+    );
+}
+
+export function normalizeLoopCount(
+    loopCount: number | null
+) {
+    if (
+        typeof loopCount !== "number" ||
+        !Number.isFinite(loopCount) ||
+        loopCount < 0
+    ) {
+        return 0;
+    }
+    return Math.min(65535, Math.round(loopCount));
+}
+
+export function getPlayCount(
+    loopCount: number | null
+) {
+    const loops = normalizeLoopCount(loopCount);
+    return loops === 0
+        ? 0
+        : Math.min(65535, loops + 1);
+}
+
+export function extractGifSource(
+    bytes: Uint8Array,
+    budgetBytes = DEFAULT_DECODE_BUDGET_MB *
+        1024 *
+        1024
+): GifSource {
+    const reader = new GifReader(bytes);
+    const width = reader.width;
+    const height = reader.height;
+    const loopCount = reader.loopCount();
+    const frameCount = reader.numFrames();
+    if (frameCount === 0) {
+        throw new Error("GIF contains no frames");
+    }
+    const stored = getStoredFrameSize({
+        width,
+        height,
+        frameCount,
+        budgetBytes,
+        workingBytes: width * height * 4 * 2,
+    });
+    const downsample =
+        stored.width !== width ||
+        stored.height !== height;
+    const canvasState = new Uint8ClampedArray(
+        width * height * 4
+    );
+    const frames: GifFrameData[] = [];
+    for (let i = 0; i < frameCount; i++) {
+        const frameInfo = reader.frameInfo(i);
+        let restoreBuffer: Uint8ClampedArray | null =
+            null;
+        if (frameInfo.disposal === 3) {
+            restoreBuffer = canvasState.slice();
+        }
+        reader.decodeAndBlitFrameRGBA(
+            i,
+            canvasState
+        );
+        frames.push({
+            pixels: downsample
+                ? sampleBox({
+                      pixels: canvasState,
+                      sourceWidth: width,
+                      sourceHeight: height,
+                      sampleWidth: stored.width,
+                      sampleHeight: stored.height,
+                  })
+                : new Uint8ClampedArray(
+                      canvasState
+                  ),
+            delay: frameInfo.delay ?? 0,
+        });
+        if (frameInfo.disposal === 2) {
+            clearFrameRegion(
+                canvasState,
+                width,
+                frameInfo
+            );
+        } else if (
+            frameInfo.disposal === 3 &&
+            restoreBuffer
+        ) {
+            canvasState.set(restoreBuffer);
+        }
+    }
+    return {
+        width: stored.width,
+        height: stored.height,
+        loopCount,
+        frames,
+    };
+}
+
+function clearFrameRegion(
+    buffer: Uint8ClampedArray,
+    canvasWidth: number,
+    frame: {
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+    }
+) {
+    for (let row = 0; row < frame.height; row++) {
+        const start =
+            ((frame.y + row) * canvasWidth +
+                frame.x) *
+            4;
+        buffer.fill(
+            0,
+            start,
+            start + frame.width * 4
+        );
+    }
+}
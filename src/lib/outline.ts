@@ -0,0 +1,138 @@
+import { lumaOf } from "@/lib/adjustments";
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+import type { PaletteEntry } from "@/lib/quantize";
+
+export type OutlineMode =
+    "none" | "outer" | "inner" | "both";
+
+export const OUTLINE_MODES: {
+    id: OutlineMode;
+    label: string;
+}[] = [
+    { id: "none", label: "Off" },
+    { id: "outer", label: "Outer" },
+    { id: "inner", label: "Inner" },
+    { id: "both", label: "Outer + inner" },
+];
+
+export type OutlineSettings = {
+    mode: OutlineMode;
+    color: string;
+    selective: boolean;
+    edgeThreshold: number;
+};
+
+const NEIGHBOURS = [
+    [0, -1],
+    [-1, 0],
+    [1, 0],
+    [0, 1],
+] as const;
+
+function createDarkerLookup(
+    paletteData: PaletteEntry[]
+) {
+    const ranked = paletteData
+        .map(({ hex, rgb }) => ({
+            hex,
+            luma: lumaOf(rgb.r, rgb.g, rgb.b),
+        }))
+        .sort((a, b) => a.luma - b.luma);
+    const lumaByHex = new Map(
+        ranked.map(({ hex, luma }) => [hex, luma])
+    );
+    const darker = new Map<string, string>();
+    const darkerOf = (hex: string) => {
+        let result = darker.get(hex);
+        if (result) return result;
+        const luma = lumaByHex.get(hex) ?? 0;
+        result = ranked[0].hex;
+        for (const entry of ranked) {
+            if (entry.luma >= luma) break;
+            result = entry.hex;
+        }
+        darker.set(hex, result);
+        return result;
+    };
+    return { lumaByHex, darkerOf };
+}
+
+export function applyOutline(
+    colorGrid: string[][],
+    paletteData: PaletteEntry[],
+    {
+        mode,
+        color,
+        selective,
+        edgeThreshold,
+    }: OutlineSettings
+) {
+    if (mode === "none" || !paletteData.length) {
+        return colorGrid;
+    }
+    const height = colorGrid.length;
+    const width = colorGrid[0]?.length ?? 0;
+    const { lumaByHex, darkerOf } =
+        createDarkerLookup(paletteData);
+    const outer =
+        mode === "outer" || mode === "both";
+    const inner =
+        mode === "inner" || mode === "both";
+    const output = colorGrid.map((row) =>
+        row.slice()
+    );
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const cell = colorGrid[y][x];
+            const isTransparent =
+                cell === TRANSPARENT_CELL;
+            if (isTransparent && !outer) continue;
+            if (!isTransparent && !inner)
+                continue;
+            const luma = lumaByHex.get(cell) ?? 0;
+            let edgeColor: string | null = null;
+            for (const [dx, dy] of NEIGHBOURS) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (
+                    nx < 0 ||
+                    ny < 0 ||
+                    nx >= width ||
+                    ny >= height
+                ) {
+                    continue;
+                }
+                const neighbour =
+                    colorGrid[ny][nx];
+                if (isTransparent) {
+                    if (
+                        neighbour !==
+                        TRANSPARENT_CELL
+                    ) {
+                        edgeColor = neighbour;
+                        break;
+                    }
+                    continue;
+                }
+                if (
+                    neighbour ===
+                        TRANSPARENT_CELL ||
+                    (edgeThreshold > 0 &&
+                        (lumaByHex.get(
+                            neighbour
+                        ) ?? 0) -
+                            luma >=
+                            edgeThreshold)
+                ) {
+                    edgeColor = cell;
+                    break;
+                }
+            }
+            if (edgeColor === null) continue;
+            output[y][x] = selective
+                ? darkerOf(edgeColor)
+                : color;
+        }
+    }
+    return output;
+}
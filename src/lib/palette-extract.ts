@@ -0,0 +1,323 @@
+export type PaletteAlgorithm =
+    "median-cut" | "octree" | "kmeans";
+
+export const PALETTE_ALGORITHMS: {
+    id: PaletteAlgorithm;
+    label: string;
+}[] = [
+    { id: "median-cut", label: "Median cut" },
+    { id: "octree", label: "Octree" },
+    { id: "kmeans", label: "K-means" },
+];
+
+export const MIN_AUTO_COLORS = 2;
+export const MAX_AUTO_COLORS = 256;
+
+const MAX_SAMPLES = 65_536;
+
+type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb) =>
+    `#${[r, g, b]
+        .map((c) =>
+            Math.round(c)
+                .toString(16)
+                .padStart(2, "0")
+        )
+        .join("")}`;
+
+const luminance = ([r, g, b]: Rgb) =>
+    0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+export function collectPaletteSamples(
+    sources: Uint8ClampedArray[],
+    maxSamples = MAX_SAMPLES
+) {
+    const totalPixels = sources.reduce(
+        (sum, pixels) => sum + pixels.length / 4,
+        0
+    );
+    const stride = Math.max(
+        1,
+        Math.ceil(totalPixels / maxSamples)
+    );
+    const samples: Rgb[] = [];
+    let cursor = 0;
+    for (const pixels of sources) {
+        for (
+            let i = 0;
+            i < pixels.length;
+            i += 4, cursor++
+        ) {
+            if (cursor % stride !== 0) continue;
+            if (pixels[i + 3] < 128) continue;
+            samples.push([
+                pixels[i],
+                pixels[i + 1],
+                pixels[i + 2],
+            ]);
+        }
+    }
+    return samples;
+}
+
+function medianCut(
+    samples: Rgb[],
+    count: number
+) {
+    const boxes: Rgb[][] = [samples.slice()];
+    const channelRange = (
+        box: Rgb[],
+        c: number
+    ) => {
+        let min = 255;
+        let max = 0;
+        for (const color of box) {
+            if (color[c] < min) min = color[c];
+            if (color[c] > max) max = color[c];
+        }
+        return max - min;
+    };
+    while (boxes.length < count) {
+        let target = -1;
+        let targetChannel = 0;
+        let bestScore = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            for (let c = 0; c < 3; c++) {
+                const score =
+                    channelRange(box, c) *
+                    Math.sqrt(box.length);
+                if (score > bestScore) {
+                    bestScore = score;
+                    target = index;
+                    targetChannel = c;
+                }
+            }
+        });
+        if (target < 0) break;
+        const box = boxes[target].sort(
+            (a, b) =>
+                a[targetChannel] -
+                b[targetChannel]
+        );
+        const middle = box.length >> 1;
+        boxes.splice(
+            target,
+            1,
+            box.slice(0, middle),
+            box.slice(middle)
+        );
+    }
+    return boxes.map((box) => {
+        const sum: Rgb = [0, 0, 0];
+        for (const color of box) {
+            sum[0] += color[0];
+            sum[1] += color[1];
+            sum[2] += color[2];
+        }
+        return sum.map(
+            (c) => c / box.length
+        ) as Rgb;
+    });
+}
+
+type OctreeNode = {
+    children: (OctreeNode | null)[];
+    pixelCount: number;
+    sum: Rgb;
+    isLeaf: boolean;
+};
+
+function octree(samples: Rgb[], count: number) {
+    const maxDepth = 8;
+    const levels: OctreeNode[][] = Array.from(
+        { length: maxDepth },
+        () => []
+    );
+    const createNode = (
+        depth: number
+    ): OctreeNode => {
+        const node: OctreeNode = {
+            children: new Array(8).fill(null),
+            pixelCount: 0,
+            sum: [0, 0, 0],
+            isLeaf: depth === maxDepth,
+        };
+        if (depth < maxDepth)
+            levels[depth].push(node);
+        return node;
+    };
+    const root = createNode(0);
+    let leafCount = 0;
+    for (const color of samples) {
+        let node = root;
+        for (
+            let depth = 0;
+            depth < maxDepth;
+            depth++
+        ) {
+            if (node.isLeaf) break;
+            const shift = 7 - depth;
+            const index =
+                (((color[0] >> shift) & 1) << 2) |
+                (((color[1] >> shift) & 1) << 1) |
+                ((color[2] >> shift) & 1);
+            let child = node.children[index];
+            if (!child) {
+                child = createNode(depth + 1);
+                node.children[index] = child;
+                if (child.isLeaf) leafCount++;
+            }
+            node = child;
+        }
+        node.pixelCount++;
+        node.sum[0] += color[0];
+        node.sum[1] += color[1];
+        node.sum[2] += color[2];
+    }
+    for (
+        let depth = maxDepth - 1;
+        depth >= 0 && leafCount > count;
+        depth--
+    ) {
+        const weight = (node: OctreeNode) =>
+            node.children.reduce(
+                (sum, child) =>
+                    sum +
+                    (child?.pixelCount ?? 0),
+                0
+            );
+        const nodes = levels[depth].sort(
+            (a, b) => weight(a) - weight(b)
+        );
+        for (const node of nodes) {
+            if (leafCount <= count) break;
+            if (node.isLeaf) continue;
+            let merged = 0;
+            for (const child of node.children) {
+                if (!child) continue;
+                node.pixelCount +=
+                    child.pixelCount;
+                node.sum[0] += child.sum[0];
+                node.sum[1] += child.sum[1];
+                node.sum[2] += child.sum[2];
+                merged++;
+            }
+            node.children.fill(null);
+            node.isLeaf = true;
+            leafCount -= merged - 1;
+        }
+    }
+    const colors: Rgb[] = [];
+    const collect = (node: OctreeNode) => {
+        if (node.isLeaf) {
+            if (node.pixelCount > 0) {
+                colors.push(
+                    node.sum.map(
+                        (c) => c / node.pixelCount
+                    ) as Rgb
+                );
+            }
+            return;
+        }
+        for (const child of node.children) {
+            if (child) collect(child);
+        }
+    };
+    collect(root);
+    return colors;
+}
+
+function kMeans(samples: Rgb[], count: number) {
+    const centroids = medianCut(samples, count);
+    const assignments = new Int32Array(
+        samples.length
+    );
+    for (
+        let iteration = 0;
+        iteration < 12;
+        iteration++
+    ) {
+        let changed = 0;
+        samples.forEach((color, index) => {
+            let closest = 0;
+            let best = Number.MAX_VALUE;
+            centroids.forEach((centroid, c) => {
+                const distance =
+                    (centroid[0] - color[0]) **
+                        2 +
+                    (centroid[1] - color[1]) **
+                        2 +
+                    (centroid[2] - color[2]) ** 2;
+                if (distance < best) {
+                    best = distance;
+                    closest = c;
+                }
+            });
+            if (assignments[index] !== closest) {
+                assignments[index] = closest;
+                changed++;
+            }
+        });
+        const sums = centroids.map(
+            () => [0, 0, 0, 0] as number[]
+        );
+        samples.forEach((color, index) => {
+            const sum = sums[assignments[index]];
+            sum[0] += color[0];
+            sum[1] += color[1];
+            sum[2] += color[2];
+            sum[3]++;
+        });
+        sums.forEach((sum, c) => {
+            if (!sum[3]) return;
+            centroids[c] = [
+                sum[0] / sum[3],
+                sum[1] / sum[3],
+                sum[2] / sum[3],
+            ];
+        });
+        if (changed === 0 && iteration > 0) break;
+    }
+    return centroids;
+}
+
+export function extractPalette({
+    samples,
+    colorCount,
+    algorithm,
+}: {
+    samples: Rgb[];
+    colorCount: number;
+    algorithm: PaletteAlgorithm;
+}) {
+    if (!samples.length) {
+        throw new Error(
+            "Image has no opaque pixels to sample."
+        );
+    }
+    const count = Math.max(
+        MIN_AUTO_COLORS,
+        Math.min(
+            MAX_AUTO_COLORS,
+            Math.round(colorCount)
+        )
+    );
+    const colors =
+        algorithm === "octree"
+            ? octree(samples, count)
+            : algorithm === "kmeans"
+              ? kMeans(samples, count)
+              : medianCut(samples, count);
+    const unique = new Map<string, Rgb>();
+    for (const color of colors) {
+        unique.set(toHex(color), color);
+    }
+    return Array.from(unique.entries())
+        .sort(
+            ([, a], [, b]) =>
+                luminance(a) - luminance(b)
+        )
+        .map(([hex]) => hex);
+}
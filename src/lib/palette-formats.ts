@@ -0,0 +1,511 @@
+import { hexToRgb } from "@/lib/utils";
+
+export type PaletteFileFormat =
+    "gpl" | "pal" | "hex" | "ase";
+
+export const PALETTE_FILE_FORMATS: {
+    id: PaletteFileFormat;
+    label: string;
+    extension: string;
+    mime: string;
+}[] = [
+    {
+        id: "gpl",
+        label: "GIMP (.gpl)",
+        extension: "gpl",
+        mime: "text/plain",
+    },
+    {
+        id: "pal",
+        label: "JASC-PAL (.pal)",
+        extension: "pal",
+        mime: "text/plain",
+    },
+    {
+        id: "hex",
+        label: "Lospec (.hex)",
+        extension: "hex",
+        mime: "text/plain",
+    },
+    {
+        id: "ase",
+        label: "Adobe (.ase)",
+        extension: "ase",
+        mime: "application/octet-stream",
+    },
+];
+
+export const MAX_PALETTE_COLORS = 256;
+
+export type ParsedPalette = {
+    label: string;
+    colors: string[];
+};
+
+const clampByte = (value: number) =>
+    Math.max(0, Math.min(255, Math.round(value)));
+
+export const rgbToHex = (
+    r: number,
+    g: number,
+    b: number
+) =>
+    `#${[r, g, b]
+        .map((c) =>
+            clampByte(c)
+                .toString(16)
+                .padStart(2, "0")
+        )
+        .join("")}`;
+
+const stripExtension = (name: string) =>
+    name.replace(/\.[^.]+$/, "");
+
+const finalizeColors = (colors: string[]) => {
+    if (!colors.length) {
+        throw new Error(
+            "Palette file does not contain any colors."
+        );
+    }
+    return colors.slice(0, MAX_PALETTE_COLORS);
+};
+
+function parseGpl(
+    text: string,
+    fallbackName: string
+) {
+    const lines = text.split(/\r?\n/);
+    if (
+        !lines[0]
+            ?.trim()
+            .startsWith("GIMP Palette")
+    ) {
+        throw new Error(
+            "Missing GIMP Palette header."
+        );
+    }
+    let label = fallbackName;
+    const colors: string[] = [];
+    for (const rawLine of lines.slice(1)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#"))
+            continue;
+        const nameMatch = /^Name:\s*(.*)$/i.exec(
+            line
+        );
+        if (nameMatch) {
+            label = nameMatch[1].trim() || label;
+            continue;
+        }
+        if (/^Columns:/i.test(line)) continue;
+        const [r, g, b] = line
+            .split(/\s+/)
+            .slice(0, 3)
+            .map(Number);
+        if (
+            [r, g, b].some(
+                (c) => !Number.isFinite(c)
+            )
+        ) {
+            continue;
+        }
+        colors.push(rgbToHex(r, g, b));
+    }
+    return {
+        label,
+        colors: finalizeColors(colors),
+    };
+}
+
+function parseJascPal(
+    text: string,
+    fallbackName: string
+) {
+    const lines = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+    if (lines[0] !== "JASC-PAL") {
+        throw new Error(
+            "Missing JASC-PAL header."
+        );
+    }
+    const count = Number(lines[2]);
+    const colors = lines
+        .slice(
+            3,
+            Number.isFinite(count)
+                ? 3 + count
+                : undefined
+        )
+        .map((line) =>
+            line.split(/\s+/).map(Number)
+        )
+        .filter((channels) =>
+            channels
+                .slice(0, 3)
+                .every((c) => Number.isFinite(c))
+        )
+        .map(([r, g, b]) => rgbToHex(r, g, b));
+    return {
+        label: fallbackName,
+        colors: finalizeColors(colors),
+    };
+}
+
+function parseHex(
+    text: string,
+    fallbackName: string
+) {
+    const colors = text
+        .split(/\r?\n/)
+        .map((line) =>
+            line.trim().replace(/^#/, "")
+        )
+        .filter((line) =>
+            /^[0-9a-f]{6}$/i.test(line)
+        )
+        .map((line) => `#${line.toLowerCase()}`);
+    return {
+        label: fallbackName,
+        colors: finalizeColors(colors),
+    };
+}
+
+function labToRgb(
+    l: number,
+    a: number,
+    b: number
+) {
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+    const inverse = (t: number) =>
+        t ** 3 > 0.008856
+            ? t ** 3
+            : (t - 16 / 116) / 7.787;
+    const x = inverse(fx) * 0.95047;
+    const y = inverse(fy);
+    const z = inverse(fz) * 1.08883;
+    const toSrgb = (c: number) =>
+        255 *
+        (c <= 0.0031308
+            ? 12.92 * c
+            : 1.055 * c ** (1 / 2.4) - 0.055);
+    return [
+        toSrgb(
+            3.2404542 * x -
+                1.5371385 * y -
+                0.4985314 * z
+        ),
+        toSrgb(
+            -0.969266 * x +
+                1.8760108 * y +
+                0.041556 * z
+        ),
+        toSrgb(
+            0.0556434 * x -
+                0.2040259 * y +
+                1.0572252 * z
+        ),
+    ];
+}
+
+function parseAse(
+    bytes: Uint8Array,
+    fallbackName: string
+) {
+    const view = new DataView(
+        bytes.buffer,
+        bytes.byteOffset,
+        bytes.byteLength
+    );
+    const signature = String.fromCharCode(
+        ...bytes.subarray(0, 4)
+    );
+    if (signature !== "ASEF") {
+        throw new Error(
+            "Missing ASEF signature."
+        );
+    }
+    const blockCount = view.getUint32(8);
+    let label = fallbackName;
+    const colors: string[] = [];
+    let offset = 12;
+    for (
+        let block = 0;
+        block < blockCount &&
+        offset + 6 <= bytes.length;
+        block++
+    ) {
+        const type = view.getUint16(offset);
+        const length = view.getUint32(offset + 2);
+        const start = offset + 6;
+        offset = start + length;
+        if (type !== 0x0001 && type !== 0xc001)
+            continue;
+        const nameLength = view.getUint16(start);
+        let name = "";
+        for (let i = 0; i < nameLength - 1; i++) {
+            name += String.fromCharCode(
+                view.getUint16(start + 2 + i * 2)
+            );
+        }
+        if (type === 0xc001) {
+            if (name) label = name;
+            continue;
+        }
+        const modelOffset =
+            start + 2 + nameLength * 2;
+        const model = String.fromCharCode(
+            ...bytes.subarray(
+                modelOffset,
+                modelOffset + 4
+            )
+        ).trim();
+        const read = (index: number) =>
+            view.getFloat32(
+                modelOffset + 4 + index * 4
+            );
+        if (model === "RGB") {
+            colors.push(
+                rgbToHex(
+                    read(0) * 255,
+                    read(1) * 255,
+                    read(2) * 255
+                )
+            );
+        } else if (model === "CMYK") {
+            const k = read(3);
+            colors.push(
+                rgbToHex(
+                    255 * (1 - read(0)) * (1 - k),
+                    255 * (1 - read(1)) * (1 - k),
+                    255 * (1 - read(2)) * (1 - k)
+                )
+            );
+        } else if (model === "Gray") {
+            const gray = read(0) * 255;
+            colors.push(
+                rgbToHex(gray, gray, gray)
+            );
+        } else if (model === "LAB") {
+            const [r, g, b] = labToRgb(
+                read(0) * 100,
+                read(1),
+                read(2)
+            );
+            colors.push(rgbToHex(r, g, b));
+        }
+    }
+    return {
+        label,
+        colors: finalizeColors(colors),
+    };
+}
+
+export function parsePaletteFile(
+    fileName: string,
+    buffer: ArrayBuffer
+): ParsedPalette {
+    const bytes = new Uint8Array(buffer);
+    const fallbackName =
+        stripExtension(fileName) ||
+        "Imported palette";
+    const extension =
+        fileName
+            .split(".")
+            .pop()
+            ?.toLowerCase() ?? "";
+    if (
+        extension === "ase" ||
+        String.fromCharCode(
+            ...bytes.subarray(0, 4)
+        ) === "ASEF"
+    ) {
+        return parseAse(bytes, fallbackName);
+    }
+    const text = new TextDecoder().decode(bytes);
+    const header = text.trimStart();
+    if (header.startsWith("GIMP Palette")) {
+        return parseGpl(text, fallbackName);
+    }
+    if (header.startsWith("JASC-PAL")) {
+        return parseJascPal(text, fallbackName);
+    }
+    if (
+        extension === "hex" ||
+        extension === "txt"
+    ) {
+        return parseHex(text, fallbackName);
+    }
+    throw new Error(
+        "Unsupported palette file. Use .gpl, .pal, .hex or .ase."
+    );
+}
+
+function serializeAse(
+    label: string,
+    colors: string[]
+) {
+    const encodeName = (name: string) => {
+        const units = Array.from(name, (char) =>
+            char.charCodeAt(0)
+        );
+        units.push(0);
+        return units;
+    };
+    const blocks: Uint8Array[] = [];
+    const pushBlock = (
+        type: number,
+        body: (view: DataView) => void,
+        length: number
+    ) => {
+        const block = new Uint8Array(6 + length);
+        const view = new DataView(block.buffer);
+        view.setUint16(0, type);
+        view.setUint32(2, length);
+        body(new DataView(block.buffer, 6));
+        blocks.push(block);
+    };
+    const groupName = encodeName(label);
+    pushBlock(
+        0xc001,
+        (view) => {
+            view.setUint16(0, groupName.length);
+            groupName.forEach((unit, i) =>
+                view.setUint16(2 + i * 2, unit)
+            );
+        },
+        2 + groupName.length * 2
+    );
+    for (const hex of colors) {
+        const name = encodeName(hex);
+        const { r, g, b } = hexToRgb(hex);
+        pushBlock(
+            0x0001,
+            (view) => {
+                view.setUint16(0, name.length);
+                name.forEach((unit, i) =>
+                    view.setUint16(
+                        2 + i * 2,
+                        unit
+                    )
+                );
+                const offset =
+                    2 + name.length * 2;
+                "RGB "
+                    .split("")
+                    .forEach((char, i) =>
+                        view.setUint8(
+                            offset + i,
+                            char.charCodeAt(0)
+                        )
+                    );
+                view.setFloat32(
+                    offset + 4,
+                    r / 255
+                );
+                view.setFloat32(
+                    offset + 8,
+                    g / 255
+                );
+                view.setFloat32(
+                    offset + 12,
+                    b / 255
+                );
+                view.setUint16(offset + 16, 2);
+            },
+            2 + name.length * 2 + 4 + 12 + 2
+        );
+    }
+    pushBlock(0xc002, () => {}, 0);
+    const total = blocks.reduce(
+        (sum, block) => sum + block.length,
+        12
+    );
+    const output = new Uint8Array(total);
+    const view = new DataView(output.buffer);
+    output.set([0x41, 0x53, 0x45, 0x46], 0);
+    view.setUint16(4, 1);
+    view.setUint16(6, 0);
+    view.setUint32(8, blocks.length);
+    let offset = 12;
+    for (const block of blocks) {
+        output.set(block, offset);
+        offset += block.length;
+    }
+    return output;
+}
+
+export function serializePalette(
+    { label, colors }: ParsedPalette,
+    format: PaletteFileFormat
+): Blob {
+    const { mime } =
+        PALETTE_FILE_FORMATS.find(
+            (entry) => entry.id === format
+        ) ?? PALETTE_FILE_FORMATS[0];
+    const rgbColors = colors.map(hexToRgb);
+    switch (format) {
+        case "gpl":
+            return new Blob(
+                [
+                    [
+                        "GIMP Palette",
+                        `Name: ${label}`,
+                        `Columns: ${Math.min(16, colors.length)}`,
+                        "#",
+                        ...rgbColors.map(
+                            ({ r, g, b }, i) =>
+                                `${String(r).padStart(3)} ${String(
+                                    g
+                                ).padStart(
+                                    3
+                                )} ${String(
+                                    b
+                                ).padStart(
+                                    3
+                                )}\t${colors[i]}`
+                        ),
+                        "",
+                    ].join("\n"),
+                ],
+                { type: mime }
+            );
+        case "pal":
+            return new Blob(
+                [
+                    [
+                        "JASC-PAL",
+                        "0100",
+                        String(colors.length),
+                        ...rgbColors.map(
+                            ({ r, g, b }) =>
+                                `${r} ${g} ${b}`
+                        ),
+                        "",
+                    ].join("\r\n"),
+                ],
+                { type: mime }
+            );
+        case "hex":
+            return new Blob(
+                [
+                    colors
+                        .map((hex) =>
+                            hex
+                                .replace("#", "")
+                                .toLowerCase()
+                        )
+                        .join("\n") + "\n",
+                ],
+                { type: mime }
+            );
+        case "ase":
+            return new Blob(
+                [serializeAse(label, colors)],
+                { type: mime }
+            );
+    }
+}
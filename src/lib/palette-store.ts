@@ -0,0 +1,63 @@
+export type StoredPalette = {
+    id: string;
+    label: string;
+    description: string;
+    colors: string[];
+};
+
+const STORAGE_KEY =
+    "8-bit-studio:custom-palettes";
+
+const isStoredPalette = (
+    value: unknown
+): value is StoredPalette => {
+    if (!value || typeof value !== "object")
+        return false;
+    const palette =
+        value as Partial<StoredPalette>;
+    return (
+        typeof palette.id === "string" &&
+        typeof palette.label === "string" &&
+        Array.isArray(palette.colors) &&
+        palette.colors.every(
+            (color) =>
+                typeof color === "string" &&
+                /^#[0-9a-f]{6}$/i.test(color)
+        )
+    );
+};
+
+export function loadCustomPalettes(): StoredPalette[] {
+    try {
+        const raw =
+            window.localStorage.getItem(
+                STORAGE_KEY
+            );
+        if (!raw) return [];
+        const parsed: unknown = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+        return parsed
+            .filter(isStoredPalette)
+            .map((palette) => ({
+                ...palette,
+                description:
+                    palette.description ?? "",
+            }));
+    } catch (error) {
+        console.error("[palette-store]", error);
+        return [];
+    }
+}
+
+export function saveCustomPalettes(
+    palettes: StoredPalette[]
+) {
+    try {
+        window.localStorage.setItem(
+            STORAGE_KEY,
+            JSON.stringify(palettes)
+        );
+    } catch (error) {
+        console.error("[palette-store]", error);
+    }
+}
@@ -0,0 +1,259 @@
+export const PNG_SIGNATURE = Uint8Array.of(
+    0x89,
+    0x50,
+    0x4e,
+    0x47,
+    0x0d,
+    0x0a,
+    0x1a,
+    0x0a
+);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c =
+                c & 1
+                    ? 0xedb88320 ^ (c >>> 1)
+                    : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(bytes: Uint8Array) {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        c =
+            CRC_TABLE[(c ^ bytes[i]) & 0xff] ^
+            (c >>> 8);
+    }
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array) {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+function storeZlib(bytes: Uint8Array) {
+    const blockSize = 65535;
+    const blockCount = Math.max(
+        1,
+        Math.ceil(bytes.length / blockSize)
+    );
+    const output = new Uint8Array(
+        2 + bytes.length + blockCount * 5 + 4
+    );
+    output[0] = 0x78;
+    output[1] = 0x01;
+    let offset = 2;
+    for (
+        let block = 0;
+        block < blockCount;
+        block++
+    ) {
+        const start = block * blockSize;
+        const length = Math.min(
+            blockSize,
+            bytes.length - start
+        );
+        output[offset] =
+            block === blockCount - 1 ? 1 : 0;
+        output[offset + 1] = length & 0xff;
+        output[offset + 2] = length >>> 8;
+        output[offset + 3] = ~length & 0xff;
+        output[offset + 4] =
+            (~length >>> 8) & 0xff;
+        output.set(
+            bytes.subarray(start, start + length),
+            offset + 5
+        );
+        offset += 5 + length;
+    }
+    new DataView(output.buffer).setUint32(
+        offset,
+        adler32(bytes)
+    );
+    return output;
+}
+
+export async function zlibCompress(
+    bytes: Uint8Array<ArrayBuffer>
+) {
+    if (
+        typeof CompressionStream === "undefined"
+    ) {
+        return storeZlib(bytes);
+    }
+    const stream = new Blob([bytes])
+        .stream()
+        .pipeThrough(
+            new CompressionStream("deflate")
+        );
+    return new Uint8Array(
+        await new Response(stream).arrayBuffer()
+    );
+}
+
+const latin1 = (text: string) =>
+    Uint8Array.from(text, (char) => {
+        const code = char.charCodeAt(0);
+        return code < 256 ? code : 0x3f;
+    });
+
+export function pngChunk(
+    type: string,
+    data: Uint8Array
+) {
+    const chunk = new Uint8Array(
+        12 + data.length
+    );
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(latin1(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(
+        8 + data.length,
+        crc32(chunk.subarray(4, 8 + data.length))
+    );
+    return chunk;
+}
+
+export function textChunks(
+    text: Record<string, string>
+) {
+    return Object.entries(text).map(
+        ([keyword, value]) =>
+            pngChunk(
+                "tEXt",
+                latin1(
+                    `${keyword.slice(0, 79)}\0${value}`
+                )
+            )
+    );
+}
+
+export function getIndexedBitDepth(
+    paletteLength: number
+) {
+    if (paletteLength <= 2) return 1;
+    if (paletteLength <= 4) return 2;
+    if (paletteLength <= 16) return 4;
+    return 8;
+}
+
+export function packIndexedRows(
+    indices: Uint8Array,
+    width: number,
+    height: number,
+    bitDepth: number
+) {
+    const rowBytes = Math.ceil(
+        (width * bitDepth) / 8
+    );
+    const packed = new Uint8Array(
+        (rowBytes + 1) * height
+    );
+    const perByte = 8 / bitDepth;
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * (rowBytes + 1) + 1;
+        for (let x = 0; x < width; x++) {
+            const value = indices[y * width + x];
+            const shift =
+                8 -
+                bitDepth * ((x % perByte) + 1);
+            packed[
+                rowStart + Math.floor(x / perByte)
+            ] |= value << shift;
+        }
+    }
+    return packed;
+}
+
+export function paletteChunks(
+    palette: number[],
+    transparentIndex: number | null
+) {
+    const plte = new Uint8Array(
+        palette.length * 3
+    );
+    palette.forEach((color, index) => {
+        plte[index * 3] = (color >> 16) & 0xff;
+        plte[index * 3 + 1] = (color >> 8) & 0xff;
+        plte[index * 3 + 2] = color & 0xff;
+    });
+    const chunks = [pngChunk("PLTE", plte)];
+    if (transparentIndex !== null) {
+        const alpha = new Uint8Array(
+            transparentIndex + 1
+        ).fill(255);
+        alpha[transparentIndex] = 0;
+        chunks.push(pngChunk("tRNS", alpha));
+    }
+    return chunks;
+}
+
+export function headerChunk(
+    width: number,
+    height: number,
+    bitDepth: number
+) {
+    const ihdr = new Uint8Array(13);
+    const view = new DataView(ihdr.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    ihdr[8] = bitDepth;
+    ihdr[9] = 3;
+    return pngChunk("IHDR", ihdr);
+}
+
+export async function encodeIndexedPng({
+    width,
+    height,
+    indices,
+    palette,
+    transparentIndex = null,
+    text = {},
+}: {
+    width: number;
+    height: number;
+    indices: Uint8Array;
+    palette: number[];
+    transparentIndex?: number | null;
+    text?: Record<string, string>;
+}) {
+    const bitDepth = getIndexedBitDepth(
+        palette.length
+    );
+    const data = await zlibCompress(
+        packIndexedRows(
+            indices,
+            width,
+            height,
+            bitDepth
+        )
+    );
+    return new Blob(
+        [
+            PNG_SIGNATURE,
+            headerChunk(width, height, bitDepth),
+            ...paletteChunks(
+                palette,
+                transparentIndex
+            ),
+            ...textChunks(text),
+            pngChunk("IDAT", data),
+            pngChunk("IEND", new Uint8Array(0)),
+        ],
+        { type: "image/png" }
+    );
+}
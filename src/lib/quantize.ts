@@ -0,0 +1,380 @@
+import { hexToRgb } from "@/lib/utils";
+import { createPaletteMatcher } from "@/lib/color-distance";
+import type { PaletteMatcher } from "@/lib/color-distance";
+
+export type PaletteEntry = {
+    hex: string;
+    rgb: ReturnType<typeof hexToRgb>;
+};
+
+export const TRANSPARENT_CELL = "";
+
+export type DitherMode =
+    | "none"
+    | "bayer2"
+    | "bayer4"
+    | "bayer8"
+    | "floyd-steinberg"
+    | "atkinson"
+    | "jarvis"
+    | "sierra";
+
+export const DITHER_MODES: {
+    id: DitherMode;
+    label: string;
+}[] = [
+    { id: "none", label: "No dithering" },
+    { id: "bayer2", label: "Bayer 2x2" },
+    { id: "bayer4", label: "Bayer 4x4" },
+    { id: "bayer8", label: "Bayer 8x8" },
+    {
+        id: "floyd-steinberg",
+        label: "Floyd–Steinberg",
+    },
+    { id: "atkinson", label: "Atkinson" },
+    {
+        id: "jarvis",
+        label: "Jarvis-Judice-Ninke",
+    },
+    { id: "sierra", label: "Sierra" },
+];
+
+type DiffusionKernel = {
+    divisor: number;
+    taps: [
+        dx: number,
+        dy: number,
+        weight: number,
+    ][];
+};
+
+const DIFFUSION_KERNELS: Partial<
+    Record<DitherMode, DiffusionKernel>
+> = {
+    "floyd-steinberg": {
+        divisor: 16,
+        taps: [
+            [1, 0, 7],
+            [-1, 1, 3],
+            [0, 1, 5],
+            [1, 1, 1],
+        ],
+    },
+    atkinson: {
+        divisor: 8,
+        taps: [
+            [1, 0, 1],
+            [2, 0, 1],
+            [-1, 1, 1],
+            [0, 1, 1],
+            [1, 1, 1],
+            [0, 2, 1],
+        ],
+    },
+    jarvis: {
+        divisor: 48,
+        taps: [
+            [1, 0, 7],
+            [2, 0, 5],
+            [-2, 1, 3],
+            [-1, 1, 5],
+            [0, 1, 7],
+            [1, 1, 5],
+            [2, 1, 3],
+            [-2, 2, 1],
+            [-1, 2, 3],
+            [0, 2, 5],
+            [1, 2, 3],
+            [2, 2, 1],
+        ],
+    },
+    sierra: {
+        divisor: 32,
+        taps: [
+            [1, 0, 5],
+            [2, 0, 3],
+            [-2, 1, 2],
+            [-1, 1, 4],
+            [0, 1, 5],
+            [1, 1, 4],
+            [2, 1, 2],
+            [-1, 2, 2],
+            [0, 2, 3],
+            [1, 2, 2],
+        ],
+    },
+};
+
+export type TemporalState = {
+    indices: Int16Array;
+    reference: Float32Array;
+    error: Float32Array;
+};
+
+export function createTemporalState(
+    cellCount: number
+): TemporalState {
+    return {
+        indices: new Int16Array(cellCount).fill(
+            -1
+        ),
+        reference: new Float32Array(
+            cellCount * 3
+        ),
+        error: new Float32Array(cellCount * 3),
+    };
+}
+
+const BAYER_SIZES: Partial<
+    Record<DitherMode, number>
+> = {
+    bayer2: 2,
+    bayer4: 4,
+    bayer8: 8,
+};
+
+const buildBayerMatrix = (
+    size: number
+): number[] => {
+    if (size <= 1) return [0];
+    const half = size / 2;
+    const previous = buildBayerMatrix(half);
+    const matrix = new Array<number>(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const quadrant = [0, 2, 3, 1][
+                (y >= half ? 2 : 0) +
+                    (x >= half ? 1 : 0)
+            ];
+            matrix[y * size + x] =
+                4 *
+                    previous[
+                        (y % half) * half +
+                            (x % half)
+                    ] +
+                quadrant;
+        }
+    }
+    return matrix;
+};
+
+export function quantizePixels({
+    pixels,
+    width,
+    height,
+    paletteData,
+    dither = "none",
+    ditherStrength = 1,
+    matcher = createPaletteMatcher(paletteData),
+    alphaThreshold = 0,
+    temporal,
+}: {
+    pixels: Uint8ClampedArray;
+    width: number;
+    height: number;
+    paletteData: PaletteEntry[];
+    dither?: DitherMode;
+    ditherStrength?: number;
+    matcher?: PaletteMatcher;
+    alphaThreshold?: number;
+    temporal?: {
+        state: TemporalState;
+        threshold: number;
+    };
+}) {
+    const quantized = new Uint8ClampedArray(
+        width * height * 4
+    );
+    const colorGrid: string[][] = Array.from(
+        { length: height },
+        () => new Array<string>(width)
+    );
+    const strength = Math.max(
+        0,
+        Math.min(1, ditherStrength)
+    );
+    const kernel =
+        strength > 0
+            ? DIFFUSION_KERNELS[dither]
+            : undefined;
+    const bayerSize =
+        strength > 0
+            ? BAYER_SIZES[dither]
+            : undefined;
+    const bayer = bayerSize
+        ? buildBayerMatrix(bayerSize)
+        : null;
+    const bayerSpread =
+        (255 /
+            Math.cbrt(
+                Math.max(2, paletteData.length)
+            )) *
+        strength;
+    const working = kernel
+        ? Float32Array.from(pixels)
+        : null;
+
+    const holdLimit = temporal
+        ? temporal.threshold ** 2
+        : 0;
+    const heldIndex = (
+        cell: number,
+        index: number
+    ) => {
+        if (!temporal) return -1;
+        const { indices, reference } =
+            temporal.state;
+        const previous = indices[cell];
+        if (previous < 0) return -1;
+        const dr =
+            pixels[index] - reference[cell * 3];
+        const dg =
+            pixels[index + 1] -
+            reference[cell * 3 + 1];
+        const db =
+            pixels[index + 2] -
+            reference[cell * 3 + 2];
+        return dr * dr + dg * dg + db * db <=
+            holdLimit
+            ? previous
+            : -1;
+    };
+    const remember = (
+        cell: number,
+        index: number,
+        paletteIndex: number
+    ) => {
+        if (!temporal) return;
+        const { indices, reference } =
+            temporal.state;
+        indices[cell] = paletteIndex;
+        reference[cell * 3] = pixels[index];
+        reference[cell * 3 + 1] =
+            pixels[index + 1];
+        reference[cell * 3 + 2] =
+            pixels[index + 2];
+    };
+
+    const assign = (
+        x: number,
+        y: number,
+        paletteIndex: number
+    ) => {
+        const entry = paletteData[paletteIndex];
+        const index = (y * width + x) * 4;
+        quantized[index] = entry.rgb.r;
+        quantized[index + 1] = entry.rgb.g;
+        quantized[index + 2] = entry.rgb.b;
+        quantized[index + 3] = 255;
+        colorGrid[y][x] = entry.hex;
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const cell = y * width + x;
+            const index = cell * 4;
+            if (
+                pixels[index + 3] < alphaThreshold
+            ) {
+                colorGrid[y][x] =
+                    TRANSPARENT_CELL;
+                if (temporal) {
+                    temporal.state.indices[cell] =
+                        -1;
+                }
+                continue;
+            }
+            const held = heldIndex(cell, index);
+            if (working && kernel) {
+                const r = working[index];
+                const g = working[index + 1];
+                const b = working[index + 2];
+                const paletteIndex =
+                    held >= 0
+                        ? held
+                        : matcher(r, g, b);
+                assign(x, y, paletteIndex);
+                const { rgb } =
+                    paletteData[paletteIndex];
+                let errR = (r - rgb.r) * strength;
+                let errG = (g - rgb.g) * strength;
+                let errB = (b - rgb.b) * strength;
+                if (temporal) {
+                    const { error } =
+                        temporal.state;
+                    if (held >= 0) {
+                        errR = error[cell * 3];
+                        errG =
+                            error[cell * 3 + 1];
+                        errB =
+                            error[cell * 3 + 2];
+                    } else {
+                        remember(
+                            cell,
+                            index,
+                            paletteIndex
+                        );
+                        error[cell * 3] = errR;
+                        error[cell * 3 + 1] =
+                            errG;
+                        error[cell * 3 + 2] =
+                            errB;
+                    }
+                }
+                for (const [
+                    dx,
+                    dy,
+                    weight,
+                ] of kernel.taps) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (
+                        nx < 0 ||
+                        nx >= width ||
+                        ny >= height
+                    ) {
+                        continue;
+                    }
+                    const target =
+                        (ny * width + nx) * 4;
+                    const share =
+                        weight / kernel.divisor;
+                    working[target] +=
+                        errR * share;
+                    working[target + 1] +=
+                        errG * share;
+                    working[target + 2] +=
+                        errB * share;
+                }
+                continue;
+            }
+            if (held >= 0) {
+                assign(x, y, held);
+                continue;
+            }
+            let offset = 0;
+            if (bayer && bayerSize) {
+                const threshold =
+                    (bayer[
+                        (y % bayerSize) *
+                            bayerSize +
+                            (x % bayerSize)
+                    ] +
+                        0.5) /
+                    (bayerSize * bayerSize);
+                offset =
+                    (threshold - 0.5) *
+                    bayerSpread;
+            }
+            const paletteIndex = matcher(
+                pixels[index] + offset,
+                pixels[index + 1] + offset,
+                pixels[index + 2] + offset
+            );
+            remember(cell, index, paletteIndex);
+            assign(x, y, paletteIndex);
+        }
+    }
+
+    return { colorGrid, quantized };
+}
@@ -0,0 +1,399 @@
+import type { PaletteMatcher } from "@/lib/color-distance";
+import type { PaletteEntry } from "@/lib/quantize";
+
+export type SampleFilter =
+    "nearest" | "box" | "lanczos" | "mode";
+
+export const SAMPLE_FILTERS: {
+    id: SampleFilter;
+    label: string;
+}[] = [
+    { id: "nearest", label: "Nearest" },
+    { id: "box", label: "Box average" },
+    { id: "lanczos", label: "Lanczos" },
+    { id: "mode", label: "Majority (mode)" },
+];
+
+const LANCZOS_LOBES = 3;
+
+type ResampleInput = {
+    pixels: Uint8ClampedArray;
+    sourceWidth: number;
+    sourceHeight: number;
+    sampleWidth: number;
+    sampleHeight: number;
+};
+
+const cellRange = (
+    index: number,
+    size: number,
+    sourceSize: number
+) => {
+    const start = Math.min(
+        sourceSize - 1,
+        Math.floor((index * sourceSize) / size)
+    );
+    const end = Math.max(
+        start + 1,
+        Math.min(
+            sourceSize,
+            Math.ceil(
+                ((index + 1) * sourceSize) / size
+            )
+        )
+    );
+    return [start, end] as const;
+};
+
+function sampleNearest({
+    pixels,
+    sourceWidth,
+    sourceHeight,
+    sampleWidth,
+    sampleHeight,
+}: ResampleInput) {
+    const sampled = new Uint8ClampedArray(
+        sampleWidth * sampleHeight * 4
+    );
+    const clamp = (value: number, max: number) =>
+        Math.min(max - 1, Math.max(0, value));
+    for (let y = 0; y < sampleHeight; y++) {
+        const sourceY = clamp(
+            Math.floor(
+                ((y + 0.5) / sampleHeight) *
+                    sourceHeight
+            ),
+            sourceHeight
+        );
+        for (let x = 0; x < sampleWidth; x++) {
+            const sourceX = clamp(
+                Math.floor(
+                    ((x + 0.5) / sampleWidth) *
+                        sourceWidth
+                ),
+                sourceWidth
+            );
+            const index =
+                (sourceY * sourceWidth +
+                    sourceX) *
+                4;
+            sampled.set(
+                pixels.subarray(index, index + 4),
+                (y * sampleWidth + x) * 4
+            );
+        }
+    }
+    return sampled;
+}
+
+export function sampleBox({
+    pixels,
+    sourceWidth,
+    sourceHeight,
+    sampleWidth,
+    sampleHeight,
+}: ResampleInput) {
+    const sampled = new Uint8ClampedArray(
+        sampleWidth * sampleHeight * 4
+    );
+    for (let y = 0; y < sampleHeight; y++) {
+        const [y0, y1] = cellRange(
+            y,
+            sampleHeight,
+            sourceHeight
+        );
+        for (let x = 0; x < sampleWidth; x++) {
+            const [x0, x1] = cellRange(
+                x,
+                sampleWidth,
+                sourceWidth
+            );
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let a = 0;
+            for (let sy = y0; sy < y1; sy++) {
+                for (let sx = x0; sx < x1; sx++) {
+                    const index =
+                        (sy * sourceWidth + sx) *
+                        4;
+                    const alpha =
+                        pixels[index + 3];
+                    r += pixels[index] * alpha;
+                    g +=
+                        pixels[index + 1] * alpha;
+                    b +=
+                        pixels[index + 2] * alpha;
+                    a += alpha;
+                }
+            }
+            const target =
+                (y * sampleWidth + x) * 4;
+            if (a > 0) {
+                sampled[target] = r / a;
+                sampled[target + 1] = g / a;
+                sampled[target + 2] = b / a;
+            }
+            sampled[target + 3] =
+                a / ((y1 - y0) * (x1 - x0));
+        }
+    }
+    return sampled;
+}
+
+const lanczosKernel = (x: number) => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return (
+        (LANCZOS_LOBES *
+            Math.sin(px) *
+            Math.sin(px / LANCZOS_LOBES)) /
+        (px * px)
+    );
+};
+
+function lanczosWeights(
+    size: number,
+    sourceSize: number
+) {
+    const scale = sourceSize / size;
+    const filterScale = Math.max(1, scale);
+    const support = LANCZOS_LOBES * filterScale;
+    return Array.from(
+        { length: size },
+        (_, i) => {
+            const center =
+                (i + 0.5) * scale - 0.5;
+            const start = Math.max(
+                0,
+                Math.ceil(center - support)
+            );
+            const end = Math.min(
+                sourceSize - 1,
+                Math.floor(center + support)
+            );
+            const weights = new Float32Array(
+                end - start + 1
+            );
+            let total = 0;
+            for (let j = start; j <= end; j++) {
+                const weight = lanczosKernel(
+                    (j - center) / filterScale
+                );
+                weights[j - start] = weight;
+                total += weight;
+            }
+            if (total !== 0) {
+                for (
+                    let k = 0;
+                    k < weights.length;
+                    k++
+                )
+                    weights[k] /= total;
+            }
+            return { start, weights };
+        }
+    );
+}
+
+function sampleLanczos({
+    pixels,
+    sourceWidth,
+    sourceHeight,
+    sampleWidth,
+    sampleHeight,
+}: ResampleInput) {
+    const columns = lanczosWeights(
+        sampleWidth,
+        sourceWidth
+    );
+    const rows = lanczosWeights(
+        sampleHeight,
+        sourceHeight
+    );
+    const horizontal = new Float32Array(
+        sampleWidth * sourceHeight * 4
+    );
+    for (let y = 0; y < sourceHeight; y++) {
+        for (let x = 0; x < sampleWidth; x++) {
+            const { start, weights } = columns[x];
+            const target =
+                (y * sampleWidth + x) * 4;
+            for (
+                let k = 0;
+                k < weights.length;
+                k++
+            ) {
+                const index =
+                    (y * sourceWidth +
+                        start +
+                        k) *
+                    4;
+                const weight =
+                    weights[k] *
+                    pixels[index + 3];
+                horizontal[target] +=
+                    pixels[index] * weight;
+                horizontal[target + 1] +=
+                    pixels[index + 1] * weight;
+                horizontal[target + 2] +=
+                    pixels[index + 2] * weight;
+                horizontal[target + 3] += weight;
+            }
+        }
+    }
+    const sampled = new Uint8ClampedArray(
+        sampleWidth * sampleHeight * 4
+    );
+    for (let y = 0; y < sampleHeight; y++) {
+        const { start, weights } = rows[y];
+        for (let x = 0; x < sampleWidth; x++) {
+            let r = 0;
+            let g = 0;
+            let b = 0;
+            let a = 0;
+            for (
+                let k = 0;
+                k < weights.length;
+                k++
+            ) {
+                const index =
+                    ((start + k) * sampleWidth +
+                        x) *
+                    4;
+                r +=
+                    horizontal[index] *
+                    weights[k];
+                g +=
+                    horizontal[index + 1] *
+                    weights[k];
+                b +=
+                    horizontal[index + 2] *
+                    weights[k];
+                a +=
+                    horizontal[index + 3] *
+                    weights[k];
+            }
+            const target =
+                (y * sampleWidth + x) * 4;
+            if (a > 0) {
+                sampled[target] = r / a;
+                sampled[target + 1] = g / a;
+                sampled[target + 2] = b / a;
+            }
+            sampled[target + 3] = a;
+        }
+    }
+    return sampled;
+}
+
+function sampleMode(
+    {
+        pixels,
+        sourceWidth,
+        sourceHeight,
+        sampleWidth,
+        sampleHeight,
+    }: ResampleInput,
+    paletteData: PaletteEntry[],
+    matcher: PaletteMatcher,
+    alphaThreshold: number
+) {
+    const sampled = new Uint8ClampedArray(
+        sampleWidth * sampleHeight * 4
+    );
+    const transparentBucket = paletteData.length;
+    const counts = new Uint32Array(
+        paletteData.length + 1
+    );
+    const touched: number[] = [];
+    for (let y = 0; y < sampleHeight; y++) {
+        const [y0, y1] = cellRange(
+            y,
+            sampleHeight,
+            sourceHeight
+        );
+        for (let x = 0; x < sampleWidth; x++) {
+            const [x0, x1] = cellRange(
+                x,
+                sampleWidth,
+                sourceWidth
+            );
+            let winner = transparentBucket;
+            let best = 0;
+            for (let sy = y0; sy < y1; sy++) {
+                for (let sx = x0; sx < x1; sx++) {
+                    const index =
+                        (sy * sourceWidth + sx) *
+                        4;
+                    const bucket =
+                        pixels[index + 3] <
+                        alphaThreshold
+                            ? transparentBucket
+                            : matcher(
+                                  pixels[index],
+                                  pixels[
+                                      index + 1
+                                  ],
+                                  pixels[
+                                      index + 2
+                                  ]
+                              );
+                    if (counts[bucket] === 0)
+                        touched.push(bucket);
+                    const count = ++counts[
+                        bucket
+                    ];
+                    if (count > best) {
+                        best = count;
+                        winner = bucket;
+                    }
+                }
+            }
+            for (const bucket of touched)
+                counts[bucket] = 0;
+            touched.length = 0;
+            if (winner === transparentBucket)
+                continue;
+            const { r, g, b } =
+                paletteData[winner].rgb;
+            const target =
+                (y * sampleWidth + x) * 4;
+            sampled[target] = r;
+            sampled[target + 1] = g;
+            sampled[target + 2] = b;
+            sampled[target + 3] = 255;
+        }
+    }
+    return sampled;
+}
+
+export function resamplePixels({
+    filter,
+    paletteData,
+    matcher,
+    alphaThreshold,
+    ...input
+}: ResampleInput & {
+    filter: SampleFilter;
+    paletteData: PaletteEntry[];
+    matcher: PaletteMatcher;
+    alphaThreshold: number;
+}) {
+    switch (filter) {
+        case "nearest":
+            return sampleNearest(input);
+        case "box":
+            return sampleBox(input);
+        case "lanczos":
+            return sampleLanczos(input);
+        case "mode":
+            return sampleMode(
+                input,
+                paletteData,
+                matcher,
+                alphaThreshold
+            );
+    }
+}
@@ -0,0 +1,168 @@
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+import { encodeColorGridPng } from "@/lib/convert";
+import type { ConvertedFrame } from "@/lib/convert";
+import { clampFrameDelay } from "@/lib/gif-source";
+
+export type SpriteLayout = "grid" | "strip";
+
+export const SPRITE_LAYOUTS: {
+    id: SpriteLayout;
+    label: string;
+}[] = [
+    { id: "grid", label: "Grid" },
+    { id: "strip", label: "Strip" },
+];
+
+type Rect = {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+};
+
+export type SpriteAtlas = {
+    frames: Record<
+        string,
+        {
+            frame: Rect;
+            rotated: boolean;
+            trimmed: boolean;
+            spriteSourceSize: Rect;
+            sourceSize: { w: number; h: number };
+            duration: number;
+        }
+    >;
+    meta: {
+        app: string;
+        version: string;
+        image: string;
+        format: string;
+        size: { w: number; h: number };
+        scale: string;
+    };
+};
+
+const MAX_SHEET_DIMENSION = 16384;
+const MAX_SHEET_PIXELS = 64 * 1024 * 1024;
+
+export class SpriteSheetSizeError extends Error {
+    constructor(width: number, height: number) {
+        super(
+            `The sprite sheet would be ${width}x${height}px, too large for a texture. Use the grid layout, fewer columns or fewer frames.`
+        );
+        this.name = "SpriteSheetSizeError";
+    }
+}
+
+export function getSheetGrid(
+    frameCount: number,
+    layout: SpriteLayout
+) {
+    const columns =
+        layout === "strip"
+            ? frameCount
+            : Math.ceil(Math.sqrt(frameCount));
+    return {
+        columns,
+        rows: Math.ceil(frameCount / columns),
+    };
+}
+
+export async function buildSpriteSheet({
+    frames,
+    paletteHex,
+    layout,
+    name,
+    text,
+}: {
+    frames: ConvertedFrame[];
+    paletteHex: string[];
+    text: Record<string, string>;
+    layout: SpriteLayout;
+    name: string;
+}) {
+    const frameHeight =
+        frames[0]?.colors.length ?? 0;
+    const frameWidth =
+        frames[0]?.colors[0]?.length ?? 0;
+    if (!frameWidth || !frameHeight) {
+        throw new Error("No frames to lay out.");
+    }
+    const { columns, rows } = getSheetGrid(
+        frames.length,
+        layout
+    );
+    const sheetWidth = columns * frameWidth;
+    const sheetHeight = rows * frameHeight;
+    if (
+        Math.max(sheetWidth, sheetHeight) >
+            MAX_SHEET_DIMENSION ||
+        sheetWidth * sheetHeight >
+            MAX_SHEET_PIXELS
+    ) {
+        throw new SpriteSheetSizeError(
+            sheetWidth,
+            sheetHeight
+        );
+    }
+    const sheet = Array.from(
+        { length: sheetHeight },
+        () =>
+            new Array<string>(sheetWidth).fill(
+                TRANSPARENT_CELL
+            )
+    );
+    const image = `${name}.png`;
+    const atlas: SpriteAtlas = {
+        frames: {},
+        meta: {
+            app: "8-bit Studio",
+            version: "1.0",
+            image,
+            format: "RGBA8888",
+            size: {
+                w: sheetWidth,
+                h: sheetHeight,
+            },
+            scale: "1",
+        },
+    };
+    frames.forEach(({ colors, delay }, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        colors.forEach((line, y) => {
+            line.forEach((color, x) => {
+                sheet[row * frameHeight + y][
+                    column * frameWidth + x
+                ] = color;
+            });
+        });
+        const w = frameWidth;
+        const h = frameHeight;
+        atlas.frames[`${name} ${index}.png`] = {
+            frame: {
+                x: column * w,
+                y: row * h,
+                w,
+                h,
+            },
+            rotated: false,
+            trimmed: false,
+            spriteSourceSize: {
+                x: 0,
+                y: 0,
+                w,
+                h,
+            },
+            sourceSize: { w, h },
+            duration: clampFrameDelay(delay) * 10,
+        };
+    });
+    const blob = await encodeColorGridPng({
+        colors: sheet,
+        paletteHex,
+        pixelSize: 1,
+        text,
+    });
+    return { blob, atlas };
+}
@@ -0,0 +1,203 @@
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+
+export type SvgMode = "cells" | "runs" | "rects";
+
+export const SVG_MODES: {
+    id: SvgMode;
+    label: string;
+}[] = [
+    { id: "cells", label: "Per cell" },
+    { id: "rects", label: "Merged rects" },
+    { id: "runs", label: "Row runs" },
+];
+
+type Rect = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+function collectRuns(colors: string[][]) {
+    const shapes = new Map<string, Rect[]>();
+    colors.forEach((row, y) => {
+        let x = 0;
+        while (x < row.length) {
+            const color = row[x];
+            let end = x + 1;
+            while (
+                end < row.length &&
+                row[end] === color
+            ) {
+                end++;
+            }
+            if (color !== TRANSPARENT_CELL) {
+                const list =
+                    shapes.get(color) ?? [];
+                list.push({
+                    x,
+                    y,
+                    width: end - x,
+                    height: 1,
+                });
+                shapes.set(color, list);
+            }
+            x = end;
+        }
+    });
+    return shapes;
+}
+
+function collectRects(
+    colors: string[][],
+    width: number,
+    height: number
+) {
+    const shapes = new Map<string, Rect[]>();
+    const visited = new Uint8Array(
+        width * height
+    );
+    const matches = (
+        x: number,
+        y: number,
+        color: string
+    ) =>
+        !visited[y * width + x] &&
+        colors[y]?.[x] === color;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const color = colors[y]?.[x];
+            if (
+                !color ||
+                visited[y * width + x]
+            ) {
+                continue;
+            }
+            let rectWidth = 1;
+            while (
+                x + rectWidth < width &&
+                matches(x + rectWidth, y, color)
+            ) {
+                rectWidth++;
+            }
+            let rectHeight = 1;
+            grow: while (
+                y + rectHeight <
+                height
+            ) {
+                for (
+                    let dx = 0;
+                    dx < rectWidth;
+                    dx++
+                ) {
+                    if (
+                        !matches(
+                            x + dx,
+                            y + rectHeight,
+                            color
+                        )
+                    ) {
+                        break grow;
+                    }
+                }
+                rectHeight++;
+            }
+            for (
+                let dy = 0;
+                dy < rectHeight;
+                dy++
+            ) {
+                visited.fill(
+                    1,
+                    (y + dy) * width + x,
+                    (y + dy) * width +
+                        x +
+                        rectWidth
+                );
+            }
+            const list = shapes.get(color) ?? [];
+            list.push({
+                x,
+                y,
+                width: rectWidth,
+                height: rectHeight,
+            });
+            shapes.set(color, list);
+        }
+    }
+    return shapes;
+}
+
+function buildCellSvg(
+    colors: string[][],
+    width: number,
+    height: number,
+    pixelSize: number
+) {
+    const rects: string[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const color = colors[y]?.[x];
+            if (!color) continue;
+            rects.push(
+                `<rect x="${x * pixelSize}" y="${
+                    y * pixelSize
+                }" width="${pixelSize}" height="${pixelSize}" fill="${color}" />`
+            );
+        }
+    }
+    return rects;
+}
+
+export function buildSvgFromColors({
+    colors,
+    width,
+    height,
+    pixelSize,
+    mode = "cells",
+    cssClasses = false,
+}: {
+    colors: string[][];
+    width: number;
+    height: number;
+    pixelSize: number;
+    mode?: SvgMode;
+    cssClasses?: boolean;
+}) {
+    const svgWidth = width * pixelSize;
+    const svgHeight = height * pixelSize;
+    if (mode === "cells") {
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}" shape-rendering="crispEdges">
+  ${buildCellSvg(colors, width, height, pixelSize).join("\n  ")}
+</svg>`;
+    }
+    const shapes =
+        mode === "runs"
+            ? collectRuns(colors)
+            : collectRects(colors, width, height);
+    const entries = Array.from(shapes.entries());
+    const paths = entries.map(
+        ([color, rects], index) => {
+            const d = rects
+                .map(
+                    (rect) =>
+                        `M${rect.x} ${rect.y}h${rect.width}v${rect.height}h-${rect.width}z`
+                )
+                .join("");
+            return cssClasses
+                ? `<path class="c${index}" d="${d}"/>`
+                : `<path fill="${color}" d="${d}"/>`;
+        }
+    );
+    const style = cssClasses
+        ? `<style>${entries
+              .map(
+                  ([color], index) =>
+                      `.c${index}{fill:${color}}`
+              )
+              .join("")}</style>\n  `
+        : "";
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${width} ${height}" shape-rendering="crispEdges">
+  ${style}${paths.join("\n  ")}
+</svg>`;
+}
@@ -0,0 +1,271 @@
+import { hexToRgb } from "@/lib/utils";
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+
+export type TextExportFormat =
+    | "css"
+    | "html"
+    | "ansi24"
+    | "ansi256"
+    | "charmap";
+
+export const TEXT_EXPORT_FORMATS: {
+    id: TextExportFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+}[] = [
+    {
+        id: "css",
+        label: "CSS box-shadow",
+        extension: "css",
+        mimeType: "text/css",
+    },
+    {
+        id: "html",
+        label: "HTML table",
+        extension: "html",
+        mimeType: "text/html",
+    },
+    {
+        id: "ansi24",
+        label: "ANSI 24-bit",
+        extension: "ans",
+        mimeType: "text/plain",
+    },
+    {
+        id: "ansi256",
+        label: "ANSI 256-color",
+        extension: "ans",
+        mimeType: "text/plain",
+    },
+    {
+        id: "charmap",
+        label: "Char map",
+        extension: "txt",
+        mimeType: "text/plain",
+    },
+];
+
+const ESC = "\x1b[";
+const RESET = `${ESC}0m`;
+const UPPER_HALF = "▀";
+const LOWER_HALF = "▄";
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+const CHAR_MAP_SYMBOLS =
+    "#@%&*+=-:~o0OxX$ABCDEFGHIJKLMNPQRSTUVWYZabcdefghijklmnpqrstuvwyz123456789";
+
+function buildBoxShadowCss(
+    colors: string[][],
+    pixelSize: number
+) {
+    const width = colors[0]?.length ?? 0;
+    const height = colors.length;
+    const shadows: string[] = [];
+    colors.forEach((row, y) =>
+        row.forEach((color, x) => {
+            if (color === TRANSPARENT_CELL)
+                return;
+            shadows.push(
+                `${(x + 1) * pixelSize}px ${(y + 1) * pixelSize}px ${color}`
+            );
+        })
+    );
+    return `.pixel-art {
+  width: ${pixelSize}px;
+  height: ${pixelSize}px;
+  margin: -${pixelSize}px ${width * pixelSize}px ${
+      height * pixelSize
+  }px -${pixelSize}px;
+  box-shadow:
+    ${shadows.join(",\n    ")};
+}
+`;
+}
+
+function buildHtmlTable(
+    colors: string[][],
+    pixelSize: number
+) {
+    const rows = colors.map((row) => {
+        const cells: string[] = [];
+        let x = 0;
+        while (x < row.length) {
+            const color = row[x];
+            let span = 1;
+            while (row[x + span] === color)
+                span++;
+            cells.push(
+                `<td${
+                    span > 1
+                        ? ` colspan="${span}"`
+                        : ""
+                } style="width:${span * pixelSize}px;height:${pixelSize}px;padding:0${
+                    color === TRANSPARENT_CELL
+                        ? ""
+                        : `;background:${color}`
+                }"></td>`
+            );
+            x += span;
+        }
+        return `  <tr>${cells.join("")}</tr>`;
+    });
+    return `<table cellpadding="0" cellspacing="0" style="border-collapse:collapse;border-spacing:0;line-height:0">
+${rows.join("\n")}
+</table>
+`;
+}
+
+function toAnsi256(hex: string) {
+    const { r, g, b } = hexToRgb(hex);
+    const cubeIndex = (value: number) =>
+        CUBE_LEVELS.reduce(
+            (best, level, index) =>
+                Math.abs(level - value) <
+                Math.abs(
+                    CUBE_LEVELS[best] - value
+                )
+                    ? index
+                    : best,
+            0
+        );
+    const [cr, cg, cb] = [r, g, b].map(cubeIndex);
+    const cubeDistance =
+        (CUBE_LEVELS[cr] - r) ** 2 +
+        (CUBE_LEVELS[cg] - g) ** 2 +
+        (CUBE_LEVELS[cb] - b) ** 2;
+    const grayStep = Math.max(
+        0,
+        Math.min(
+            23,
+            Math.round(((r + g + b) / 3 - 8) / 10)
+        )
+    );
+    const gray = 8 + grayStep * 10;
+    const grayDistance =
+        (gray - r) ** 2 +
+        (gray - g) ** 2 +
+        (gray - b) ** 2;
+    return grayDistance < cubeDistance
+        ? 232 + grayStep
+        : 16 + 36 * cr + 6 * cg + cb;
+}
+
+function buildAnsiArt(
+    colors: string[][],
+    trueColor: boolean
+) {
+    const code = (
+        hex: string,
+        layer: 38 | 48
+    ) => {
+        if (trueColor) {
+            const { r, g, b } = hexToRgb(hex);
+            return `${ESC}${layer};2;${r};${g};${b}m`;
+        }
+        return `${ESC}${layer};5;${toAnsi256(hex)}m`;
+    };
+    const lines: string[] = [];
+    for (let y = 0; y < colors.length; y += 2) {
+        const top = colors[y];
+        const bottom = colors[y + 1];
+        let line = "";
+        let state = "";
+        for (let x = 0; x < top.length; x++) {
+            const upper = top[x];
+            const lower =
+                bottom?.[x] ?? TRANSPARENT_CELL;
+            let style: string;
+            let glyph: string;
+            if (upper !== TRANSPARENT_CELL) {
+                style =
+                    lower !== TRANSPARENT_CELL
+                        ? code(upper, 38) +
+                          code(lower, 48)
+                        : RESET + code(upper, 38);
+                glyph = UPPER_HALF;
+            } else if (
+                lower !== TRANSPARENT_CELL
+            ) {
+                style = RESET + code(lower, 38);
+                glyph = LOWER_HALF;
+            } else {
+                style = RESET;
+                glyph = " ";
+            }
+            if (style !== state) {
+                line += style;
+                state = style;
+            }
+            line += glyph;
+        }
+        lines.push(line + RESET);
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+function buildCharMap(colors: string[][]) {
+    const distinct = Array.from(
+        new Set(colors.flat())
+    ).filter(
+        (color) => color !== TRANSPARENT_CELL
+    );
+    const alphabet = CHAR_MAP_SYMBOLS.length;
+    const symbolWidth =
+        distinct.length > alphabet ? 2 : 1;
+    const symbols = new Map(
+        distinct.map((color, index) => [
+            color,
+            symbolWidth === 1
+                ? CHAR_MAP_SYMBOLS[index]
+                : CHAR_MAP_SYMBOLS[
+                      Math.floor(index / alphabet)
+                  ] +
+                  CHAR_MAP_SYMBOLS[
+                      index % alphabet
+                  ],
+        ])
+    );
+    const blank = " ".repeat(symbolWidth);
+    const rows = colors.map((row) =>
+        row
+            .map(
+                (color) =>
+                    symbols.get(color) ?? blank
+            )
+            .join("")
+    );
+    const legend = Array.from(
+        symbols,
+        ([color, symbol]) => `${symbol}  ${color}`
+    );
+    return `${rows.join("\n")}\n\nLegend:\n${legend.join("\n")}\n`;
+}
+
+export function buildTextExport({
+    colors,
+    pixelSize,
+    format,
+}: {
+    colors: string[][];
+    pixelSize: number;
+    format: TextExportFormat;
+}) {
+    switch (format) {
+        case "css":
+            return buildBoxShadowCss(
+                colors,
+                pixelSize
+            );
+        case "html":
+            return buildHtmlTable(
+                colors,
+                pixelSize
+            );
+        case "ansi24":
+            return buildAnsiArt(colors, true);
+        case "ansi256":
+            return buildAnsiArt(colors, false);
+        case "charmap":
+            return buildCharMap(colors);
+    }
+}
@@ -0,0 +1,589 @@
+import { hexToRgb } from "@/lib/utils";
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+import { lumaOf } from "@/lib/adjustments";
+
+export type TileTarget = "gameboy" | "nes";
+
+export const TILE_TARGETS: {
+    id: TileTarget;
+    label: string;
+}[] = [
+    { id: "gameboy", label: "Game Boy 2bpp" },
+    { id: "nes", label: "NES CHR" },
+];
+
+export type TileExportFormat =
+    "binary" | "c" | "asm";
+
+export const TILE_EXPORT_FORMATS: {
+    id: TileExportFormat;
+    label: string;
+}[] = [
+    { id: "binary", label: "Raw tile data" },
+    { id: "c", label: "C header" },
+    { id: "asm", label: "Assembly .inc" },
+];
+
+export const TILE_SIZE = 8;
+const BYTES_PER_TILE = 16;
+const MAX_TILES = 256;
+const SLOTS_PER_TILE = 4;
+
+const MAP_LIMITS: Record<
+    TileTarget,
+    { width: number; height: number }
+> = {
+    gameboy: { width: 32, height: 32 },
+    nes: { width: 32, height: 30 },
+};
+
+const NES_MASTER_PALETTE = [
+    "#7c7c7c",
+    "#0000fc",
+    "#0000bc",
+    "#4428bc",
+    "#940084",
+    "#a80020",
+    "#a81000",
+    "#881400",
+    "#503000",
+    "#007800",
+    "#006800",
+    "#005800",
+    "#004058",
+    "#000000",
+    "#000000",
+    "#000000",
+    "#bcbcbc",
+    "#0078f8",
+    "#0058f8",
+    "#6844fc",
+    "#d800cc",
+    "#e40058",
+    "#f83800",
+    "#e45c10",
+    "#ac7c00",
+    "#00b800",
+    "#00a800",
+    "#00a844",
+    "#008888",
+    "#000000",
+    "#000000",
+    "#000000",
+    "#f8f8f8",
+    "#3cbcfc",
+    "#6888fc",
+    "#9878f8",
+    "#f878f8",
+    "#f85898",
+    "#f87858",
+    "#fca044",
+    "#f8b800",
+    "#b8f818",
+    "#58d854",
+    "#58f898",
+    "#00e8d8",
+    "#787878",
+    "#000000",
+    "#000000",
+    "#fcfcfc",
+    "#a4e4fc",
+    "#b8b8f8",
+    "#d8b8f8",
+    "#f8b8f8",
+    "#f8a4c0",
+    "#f0d0b0",
+    "#fce0a8",
+    "#f8d878",
+    "#d8f878",
+    "#b8f8b8",
+    "#b8f8d8",
+    "#00fcfc",
+    "#f8d8f8",
+    "#000000",
+    "#000000",
+];
+
+const NES_BACKDROP = 0x0f;
+
+export type ConsoleTiles = {
+    target: TileTarget;
+    tiles: Uint8Array[];
+    tilemap: number[];
+    mapWidth: number;
+    mapHeight: number;
+    palette: (string | null)[];
+    hardwarePalette: number[];
+    warnings: string[];
+};
+
+const colorDistance = (a: string, b: string) => {
+    const first = hexToRgb(a);
+    const second = hexToRgb(b);
+    return (
+        (first.r - second.r) ** 2 +
+        (first.g - second.g) ** 2 +
+        (first.b - second.b) ** 2
+    );
+};
+
+const nearestIndex = (
+    color: string,
+    candidates: string[]
+) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    candidates.forEach((candidate, index) => {
+        const distance = colorDistance(
+            color,
+            candidate
+        );
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = index;
+        }
+    });
+    return best;
+};
+
+const hexLuma = (hex: string) => {
+    const { r, g, b } = hexToRgb(hex);
+    return lumaOf(r, g, b);
+};
+
+const gameboyShade = (
+    rank: number,
+    count: number
+) =>
+    count > 1
+        ? Math.round((rank * 3) / (count - 1))
+        : 0;
+
+const nesPaletteIndex = (
+    color: string | null
+) => {
+    if (!color) return NES_BACKDROP;
+    const index = nearestIndex(
+        color,
+        NES_MASTER_PALETTE
+    );
+    return NES_MASTER_PALETTE[index] === "#000000"
+        ? NES_BACKDROP
+        : index;
+};
+
+function encodeTile(
+    slots: Uint8Array,
+    target: TileTarget
+) {
+    const tile = new Uint8Array(BYTES_PER_TILE);
+    for (let y = 0; y < TILE_SIZE; y++) {
+        let low = 0;
+        let high = 0;
+        for (let x = 0; x < TILE_SIZE; x++) {
+            const slot = slots[y * TILE_SIZE + x];
+            low |= (slot & 1) << (7 - x);
+            high |= ((slot >> 1) & 1) << (7 - x);
+        }
+        if (target === "gameboy") {
+            tile[y * 2] = low;
+            tile[y * 2 + 1] = high;
+        } else {
+            tile[y] = low;
+            tile[y + TILE_SIZE] = high;
+        }
+    }
+    return tile;
+}
+
+export function buildConsoleTiles({
+    colors,
+    paletteHex,
+    target,
+}: {
+    colors: string[][];
+    paletteHex: string[];
+    target: TileTarget;
+}): ConsoleTiles {
+    const height = colors.length;
+    const width = colors[0]?.length ?? 0;
+    const warnings: string[] = [];
+    const hasTransparency = colors.some((row) =>
+        row.includes(TRANSPARENT_CELL)
+    );
+    const paletteOrder = paletteHex.map((hex) =>
+        hex.toLowerCase()
+    );
+    const usage = new Map<string, number>();
+    for (const row of colors) {
+        for (const color of row) {
+            if (color === TRANSPARENT_CELL)
+                continue;
+            const key = color.toLowerCase();
+            usage.set(
+                key,
+                (usage.get(key) ?? 0) + 1
+            );
+        }
+    }
+    const rank = (color: string) => {
+        const index = paletteOrder.indexOf(color);
+        return index < 0
+            ? paletteOrder.length
+            : index;
+    };
+    const usedColors = Array.from(
+        usage.keys()
+    ).sort(
+        (a, b) =>
+            usage.get(b)! - usage.get(a)! ||
+            rank(a) - rank(b)
+    );
+    const colorSlots =
+        SLOTS_PER_TILE -
+        (hasTransparency ? 1 : 0);
+    const kept = usedColors.slice(0, colorSlots);
+    if (target === "gameboy") {
+        kept.sort(
+            (a, b) => hexLuma(b) - hexLuma(a)
+        );
+    }
+    const palette: (string | null)[] = [
+        ...(hasTransparency ? [null] : []),
+        ...kept,
+    ];
+    if (usedColors.length > colorSlots) {
+        warnings.push(
+            `Image uses ${usedColors.length} colors but tiles hold ${colorSlots}${
+                hasTransparency
+                    ? " plus transparency"
+                    : ""
+            }; the least used colors were mapped to the nearest kept color.`
+        );
+    }
+    const slotOf = new Map<string, number>();
+    const offset = hasTransparency ? 1 : 0;
+    const slotFor = (color: string) => {
+        if (color === TRANSPARENT_CELL) return 0;
+        const key = color.toLowerCase();
+        let slot = slotOf.get(key);
+        if (slot === undefined) {
+            slot = kept.length
+                ? nearestIndex(key, kept) + offset
+                : 0;
+            slotOf.set(key, slot);
+        }
+        return slot;
+    };
+
+    const mapWidth = Math.ceil(width / TILE_SIZE);
+    const mapHeight = Math.ceil(
+        height / TILE_SIZE
+    );
+    if (width % TILE_SIZE || height % TILE_SIZE) {
+        warnings.push(
+            `Image is ${width}x${height}; it was padded to ${
+                mapWidth * TILE_SIZE
+            }x${mapHeight * TILE_SIZE} to fit 8x8 tiles.`
+        );
+    }
+    const tiles: Uint8Array[] = [];
+    const tileIndex = new Map<string, number>();
+    const tilemap: number[] = [];
+    for (let ty = 0; ty < mapHeight; ty++) {
+        for (let tx = 0; tx < mapWidth; tx++) {
+            const slots = new Uint8Array(
+                TILE_SIZE * TILE_SIZE
+            );
+            for (let y = 0; y < TILE_SIZE; y++) {
+                for (
+                    let x = 0;
+                    x < TILE_SIZE;
+                    x++
+                ) {
+                    const color =
+                        colors[
+                            ty * TILE_SIZE + y
+                        ]?.[tx * TILE_SIZE + x];
+                    slots[y * TILE_SIZE + x] =
+                        color === undefined
+                            ? 0
+                            : slotFor(color);
+                }
+            }
+            const tile = encodeTile(
+                slots,
+                target
+            );
+            const key = tile.join(",");
+            let index = tileIndex.get(key);
+            if (index === undefined) {
+                index = tiles.length;
+                tiles.push(tile);
+                tileIndex.set(key, index);
+            }
+            tilemap.push(index);
+        }
+    }
+
+    if (tiles.length > MAX_TILES) {
+        warnings.push(
+            target === "gameboy"
+                ? `${tiles.length} unique tiles exceed the ${MAX_TILES} a Game Boy background can address.`
+                : `${tiles.length} unique tiles exceed the ${MAX_TILES} in one NES pattern table.`
+        );
+    }
+    const limit = MAP_LIMITS[target];
+    if (
+        mapWidth > limit.width ||
+        mapHeight > limit.height
+    ) {
+        warnings.push(
+            `Tilemap is ${mapWidth}x${mapHeight} tiles; the ${
+                target === "gameboy"
+                    ? "Game Boy background map"
+                    : "NES nametable"
+            } holds ${limit.width}x${limit.height}.`
+        );
+    }
+
+    const hardwarePalette =
+        target === "gameboy"
+            ? [
+                  palette.reduce<number>(
+                      (bgp, color, slot) =>
+                          bgp |
+                          ((color
+                              ? gameboyShade(
+                                    slot - offset,
+                                    kept.length
+                                )
+                              : 0) <<
+                              (slot * 2)),
+                      0
+                  ),
+              ]
+            : palette.map(nesPaletteIndex);
+
+    return {
+        target,
+        tiles,
+        tilemap,
+        mapWidth,
+        mapHeight,
+        palette,
+        hardwarePalette,
+        warnings,
+    };
+}
+
+export function encodeTileData(
+    result: ConsoleTiles
+) {
+    const data = new Uint8Array(
+        result.tiles.length * BYTES_PER_TILE
+    );
+    result.tiles.forEach((tile, index) =>
+        data.set(tile, index * BYTES_PER_TILE)
+    );
+    return data;
+}
+
+const toIdentifier = (name: string) =>
+    name
+        .replace(/[^a-zA-Z0-9]+/g, "_")
+        .replace(/^(\d)/, "_$1")
+        .toLowerCase();
+
+const hexByte = (value: number, prefix: string) =>
+    `${prefix}${value
+        .toString(16)
+        .padStart(2, "0")
+        .toUpperCase()}`;
+
+const hexWord = (value: number, prefix: string) =>
+    `${prefix}${value
+        .toString(16)
+        .padStart(4, "0")
+        .toUpperCase()}`;
+
+const chunkLines = (
+    values: string[],
+    size = 16
+) => {
+    const lines: string[] = [];
+    for (
+        let i = 0;
+        i < values.length;
+        i += size
+    ) {
+        lines.push(
+            values.slice(i, i + size).join(", ")
+        );
+    }
+    return lines;
+};
+
+export function formatTileSource(
+    result: ConsoleTiles,
+    format: "c" | "asm",
+    name: string
+) {
+    const id = toIdentifier(name);
+    const upper = id.toUpperCase();
+    const data = Array.from(
+        encodeTileData(result)
+    );
+    const wideMap =
+        result.tiles.length > MAX_TILES;
+    const targetLabel =
+        TILE_TARGETS.find(
+            (entry) => entry.id === result.target
+        )?.label ?? result.target;
+    const paletteNote =
+        result.target === "gameboy"
+            ? "BGP register value"
+            : "NES palette indices";
+    const colorNote = result.palette
+        .map((color) => color ?? "transparent")
+        .join(" ");
+
+    if (format === "c") {
+        const bytes = (values: number[]) =>
+            chunkLines(
+                values.map((value) =>
+                    hexByte(value, "0x")
+                )
+            );
+        const mapValues = wideMap
+            ? chunkLines(
+                  result.tilemap.map((value) =>
+                      hexWord(value, "0x")
+                  )
+              )
+            : bytes(result.tilemap);
+        return [
+            `/* ${name}.h - ${targetLabel} tiles generated by 8-bit Studio */`,
+            `#ifndef ${upper}_H`,
+            `#define ${upper}_H`,
+            "",
+            `#define ${upper}_TILE_COUNT ${result.tiles.length}`,
+            `#define ${upper}_MAP_WIDTH ${result.mapWidth}`,
+            `#define ${upper}_MAP_HEIGHT ${result.mapHeight}`,
+            "",
+            `const unsigned char ${id}_tiles[${data.length}] = {`,
+            ...bytes(data).map(
+                (line) => `    ${line},`
+            ),
+            "};",
+            "",
+            `const unsigned ${
+                wideMap ? "short" : "char"
+            } ${id}_map[${result.tilemap.length}] = {`,
+            ...mapValues.map(
+                (line) => `    ${line},`
+            ),
+            "};",
+            "",
+            `/* ${paletteNote}: ${colorNote} */`,
+            `const unsigned char ${id}_palette[${result.hardwarePalette.length}] = {`,
+            ...bytes(result.hardwarePalette).map(
+                (line) => `    ${line},`
+            ),
+            "};",
+            "",
+            `#endif`,
+            "",
+        ].join("\n");
+    }
+
+    const gameboy = result.target === "gameboy";
+    const byteDirective = gameboy
+        ? "db"
+        : ".byte";
+    const wordDirective = gameboy
+        ? "dw"
+        : ".word";
+    const constant = (
+        key: string,
+        value: number
+    ) =>
+        gameboy
+            ? `DEF ${upper}_${key} EQU ${value}`
+            : `${upper}_${key} = ${value}`;
+    const rows = (
+        values: number[],
+        wide = false
+    ) =>
+        chunkLines(
+            values.map((value) =>
+                wide
+                    ? hexWord(value, "$")
+                    : hexByte(value, "$")
+            )
+        ).map(
+            (line) =>
+                `    ${
+                    wide
+                        ? wordDirective
+                        : byteDirective
+                } ${line.replace(/, /g, ",")}`
+        );
+    return [
+        `; ${name}.inc - ${targetLabel} tiles generated by 8-bit Studio`,
+        constant(
+            "TILE_COUNT",
+            result.tiles.length
+        ),
+        constant("MAP_WIDTH", result.mapWidth),
+        constant("MAP_HEIGHT", result.mapHeight),
+        "",
+        `${id}_tiles:`,
+        ...rows(data),
+        "",
+        `${id}_map:`,
+        ...rows(result.tilemap, wideMap),
+        "",
+        `; ${paletteNote}: ${colorNote}`,
+        `${id}_palette:`,
+        ...rows(result.hardwarePalette),
+        "",
+    ].join("\n");
+}
+
+export function buildTileExport(
+    result: ConsoleTiles,
+    format: TileExportFormat,
+    name: string
+) {
+    if (format === "binary") {
+        return {
+            blob: new Blob(
+                [encodeTileData(result)],
+                {
+                    type: "application/octet-stream",
+                }
+            ),
+            fileName: `${name}.${
+                result.target === "gameboy"
+                    ? "2bpp"
+                    : "chr"
+            }`,
+        };
+    }
+    return {
+        blob: new Blob(
+            [
+                formatTileSource(
+                    result,
+                    format,
+                    name
+                ),
+            ],
+            { type: "text/plain" }
+        ),
+        fileName: `${name}.${
+            format === "c" ? "h" : "inc"
+        }`,
+    };
+}
@@ -0,0 +1,293 @@
+import { TRANSPARENT_CELL } from "@/lib/quantize";
+import { encodeColorGridPng } from "@/lib/convert";
+
+export type TiledMapFormat = "tmx" | "json";
+
+export const TILED_MAP_FORMATS: {
+    id: TiledMapFormat;
+    label: string;
+}[] = [
+    { id: "tmx", label: "Tiled .tmx" },
+    { id: "json", label: "Tiled JSON" },
+];
+
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const TILED_VERSION = "1.10";
+
+export type Tileset = {
+    tileSize: number;
+    tiles: string[][][];
+    columns: number;
+    map: number[];
+    mapWidth: number;
+    mapHeight: number;
+};
+
+const flipTile = (
+    tile: string[][],
+    horizontal: boolean,
+    vertical: boolean
+) => {
+    const rows = vertical
+        ? [...tile].reverse()
+        : tile;
+    return horizontal
+        ? rows.map((row) => [...row].reverse())
+        : rows;
+};
+
+const tileKey = (tile: string[][]) =>
+    tile.map((row) => row.join(",")).join(";");
+
+export function buildTileset({
+    colors,
+    tileSize,
+    matchFlips,
+}: {
+    colors: string[][];
+    tileSize: number;
+    matchFlips: boolean;
+}): Tileset {
+    const height = colors.length;
+    const width = colors[0]?.length ?? 0;
+    const mapWidth = Math.ceil(width / tileSize);
+    const mapHeight = Math.ceil(
+        height / tileSize
+    );
+    const tiles: string[][][] = [];
+    const known = new Map<string, number>();
+    const map: number[] = [];
+    const variants = matchFlips
+        ? [
+              { h: false, v: false, flags: 0 },
+              {
+                  h: true,
+                  v: false,
+                  flags: FLIPPED_HORIZONTALLY,
+              },
+              {
+                  h: false,
+                  v: true,
+                  flags: FLIPPED_VERTICALLY,
+              },
+              {
+                  h: true,
+                  v: true,
+                  flags:
+                      FLIPPED_HORIZONTALLY |
+                      FLIPPED_VERTICALLY,
+              },
+          ]
+        : [{ h: false, v: false, flags: 0 }];
+
+    for (let ty = 0; ty < mapHeight; ty++) {
+        for (let tx = 0; tx < mapWidth; tx++) {
+            const tile = Array.from(
+                { length: tileSize },
+                (_, y) =>
+                    Array.from(
+                        { length: tileSize },
+                        (_, x) =>
+                            colors[
+                                ty * tileSize + y
+                            ]?.[
+                                tx * tileSize + x
+                            ] ?? TRANSPARENT_CELL
+                    )
+            );
+            if (
+                tile.every((row) =>
+                    row.every(
+                        (color) =>
+                            color ===
+                            TRANSPARENT_CELL
+                    )
+                )
+            ) {
+                map.push(0);
+                continue;
+            }
+            const match = variants
+                .map(({ h, v, flags }) => ({
+                    index: known.get(
+                        tileKey(
+                            flipTile(tile, h, v)
+                        )
+                    ),
+                    flags,
+                }))
+                .find(
+                    ({ index }) =>
+                        index !== undefined
+                );
+            if (match?.index !== undefined) {
+                map.push(
+                    ((match.index + 1) |
+                        match.flags) >>>
+                        0
+                );
+                continue;
+            }
+            known.set(
+                tileKey(tile),
+                tiles.length
+            );
+            tiles.push(tile);
+            map.push(tiles.length);
+        }
+    }
+    return {
+        tileSize,
+        tiles,
+        columns: Math.max(
+            1,
+            Math.ceil(Math.sqrt(tiles.length))
+        ),
+        map,
+        mapWidth,
+        mapHeight,
+    };
+}
+
+export function encodeTilesetPng(
+    tileset: Tileset,
+    paletteHex: string[],
+    pixelSize: number,
+    text: Record<string, string>
+) {
+    const { tiles, tileSize, columns } = tileset;
+    const rows = Math.max(
+        1,
+        Math.ceil(tiles.length / columns)
+    );
+    const sheet = Array.from(
+        { length: rows * tileSize },
+        () =>
+            new Array<string>(
+                columns * tileSize
+            ).fill(TRANSPARENT_CELL)
+    );
+    tiles.forEach((tile, index) => {
+        const left = (index % columns) * tileSize;
+        const top =
+            Math.floor(index / columns) *
+            tileSize;
+        tile.forEach((row, y) =>
+            row.forEach((color, x) => {
+                sheet[top + y][left + x] = color;
+            })
+        );
+    });
+    return encodeColorGridPng({
+        colors: sheet,
+        paletteHex,
+        pixelSize,
+        text,
+    });
+}
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;");
+
+export function buildTiledMap(
+    tileset: Tileset,
+    format: TiledMapFormat,
+    {
+        name,
+        image,
+        pixelSize,
+    }: {
+        name: string;
+        image: string;
+        pixelSize: number;
+    }
+) {
+    const tileWidth =
+        tileset.tileSize * pixelSize;
+    const rows = Math.max(
+        1,
+        Math.ceil(
+            tileset.tiles.length / tileset.columns
+        )
+    );
+    const imageWidth =
+        tileset.columns * tileWidth;
+    const imageHeight = rows * tileWidth;
+    if (format === "json") {
+        return JSON.stringify(
+            {
+                compressionlevel: -1,
+                width: tileset.mapWidth,
+                height: tileset.mapHeight,
+                infinite: false,
+                layers: [
+                    {
+                        data: tileset.map,
+                        width: tileset.mapWidth,
+                        height: tileset.mapHeight,
+                        id: 1,
+                        name: "Tiles",
+                        opacity: 1,
+                        type: "tilelayer",
+                        visible: true,
+                        x: 0,
+                        y: 0,
+                    },
+                ],
+                nextlayerid: 2,
+                nextobjectid: 1,
+                orientation: "orthogonal",
+                renderorder: "right-down",
+                tiledversion: TILED_VERSION,
+                tilewidth: tileWidth,
+                tileheight: tileWidth,
+                tilesets: [
+                    {
+                        columns: tileset.columns,
+                        firstgid: 1,
+                        image,
+                        imagewidth: imageWidth,
+                        imageheight: imageHeight,
+                        margin: 0,
+                        name,
+                        spacing: 0,
+                        tilecount:
+                            tileset.tiles.length,
+                        tilewidth: tileWidth,
+                        tileheight: tileWidth,
+                    },
+                ],
+                type: "map",
+                version: TILED_VERSION,
+            },
+            null,
+            2
+        );
+    }
+    const csv = Array.from(
+        { length: tileset.mapHeight },
+        (_, y) =>
+            tileset.map
+                .slice(
+                    y * tileset.mapWidth,
+                    (y + 1) * tileset.mapWidth
+                )
+                .join(",")
+    ).join(",\n");
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<map version="${TILED_VERSION}" tiledversion="${TILED_VERSION}" orientation="orthogonal" renderorder="right-down" width="${tileset.mapWidth}" height="${tileset.mapHeight}" tilewidth="${tileWidth}" tileheight="${tileWidth}" infinite="0" nextlayerid="2" nextobjectid="1">
+ <tileset firstgid="1" name="${escapeXml(name)}" tilewidth="${tileWidth}" tileheight="${tileWidth}" tilecount="${tileset.tiles.length}" columns="${tileset.columns}">
+  <image source="${escapeXml(image)}" width="${imageWidth}" height="${imageHeight}"/>
+ </tileset>
+ <layer id="1" name="Tiles" width="${tileset.mapWidth}" height="${tileset.mapHeight}">
+  <data encoding="csv">
+${csv}
+</data>
+ </layer>
+</map>
+`;
+}
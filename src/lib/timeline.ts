@@ -0,0 +1,248 @@
+import { clampFrameDelay } from "@/lib/gif-source";
+import type { GifSource } from "@/lib/gif-source";
+
+export type TimelineFrame = {
+    id: number;
+    source: number;
+    delay: number;
+};
+
+export type GifTimeline = {
+    frames: TimelineFrame[];
+    start: number;
+    end: number;
+    speed: number;
+    reverse: boolean;
+    pingPong: boolean;
+};
+
+export const SPEED_MULTIPLIERS = [
+    0.25, 0.5, 1, 1.5, 2, 4,
+];
+
+export function createTimeline(
+    gif: GifSource
+): GifTimeline {
+    return {
+        frames: gif.frames.map(
+            (frame, index) => ({
+                id: index,
+                source: index,
+                delay: clampFrameDelay(
+                    frame.delay
+                ),
+            })
+        ),
+        start: 0,
+        end: gif.frames.length - 1,
+        speed: 1,
+        reverse: false,
+        pingPong: false,
+    };
+}
+
+function withFrames(
+    timeline: GifTimeline,
+    frames: TimelineFrame[],
+    start: number,
+    end: number
+): GifTimeline {
+    const last = frames.length - 1;
+    const nextStart = Math.max(
+        0,
+        Math.min(last, start)
+    );
+    return {
+        ...timeline,
+        frames,
+        start: nextStart,
+        end: Math.max(
+            nextStart,
+            Math.min(last, end)
+        ),
+    };
+}
+
+export function deleteFrame(
+    timeline: GifTimeline,
+    index: number
+) {
+    if (timeline.frames.length <= 1) {
+        return timeline;
+    }
+    return withFrames(
+        timeline,
+        timeline.frames.filter(
+            (_, i) => i !== index
+        ),
+        index < timeline.start
+            ? timeline.start - 1
+            : timeline.start,
+        index <= timeline.end
+            ? timeline.end - 1
+            : timeline.end
+    );
+}
+
+export function duplicateFrame(
+    timeline: GifTimeline,
+    index: number
+) {
+    const frame = timeline.frames[index];
+    if (!frame) return timeline;
+    const id =
+        Math.max(
+            ...timeline.frames.map(
+                (entry) => entry.id
+            )
+        ) + 1;
+    const frames = [...timeline.frames];
+    frames.splice(index + 1, 0, {
+        ...frame,
+        id,
+    });
+    return withFrames(
+        timeline,
+        frames,
+        index < timeline.start
+            ? timeline.start + 1
+            : timeline.start,
+        index <= timeline.end
+            ? timeline.end + 1
+            : timeline.end
+    );
+}
+
+export function moveFrame(
+    timeline: GifTimeline,
+    from: number,
+    to: number
+) {
+    const last = timeline.frames.length - 1;
+    const target = Math.max(
+        0,
+        Math.min(last, to)
+    );
+    if (
+        from === target ||
+        !timeline.frames[from]
+    ) {
+        return timeline;
+    }
+    const frames = [...timeline.frames];
+    const [frame] = frames.splice(from, 1);
+    frames.splice(target, 0, frame);
+    if (
+        timeline.start === from &&
+        timeline.end === from
+    ) {
+        return withFrames(
+            timeline,
+            frames,
+            target,
+            target
+        );
+    }
+    const inRange =
+        from >= timeline.start &&
+        from <= timeline.end;
+    let start =
+        from < timeline.start
+            ? timeline.start - 1
+            : timeline.start;
+    let end =
+        from <= timeline.end
+            ? timeline.end - 1
+            : timeline.end;
+    if (
+        target < start ||
+        (target === start && !inRange)
+    ) {
+        start++;
+        end++;
+    } else if (
+        target <= end ||
+        (target === end + 1 && inRange)
+    ) {
+        end++;
+    }
+    return withFrames(
+        timeline,
+        frames,
+        start,
+        end
+    );
+}
+
+export function setFrameDelay(
+    timeline: GifTimeline,
+    index: number,
+    delay: number
+) {
+    return {
+        ...timeline,
+        frames: timeline.frames.map((frame, i) =>
+            i === index
+                ? {
+                      ...frame,
+                      delay: clampFrameDelay(
+                          delay
+                      ),
+                  }
+                : frame
+        ),
+    };
+}
+
+export function setFrameRange(
+    timeline: GifTimeline,
+    start: number,
+    end: number
+) {
+    return withFrames(
+        timeline,
+        timeline.frames,
+        Math.min(start, end),
+        Math.max(start, end)
+    );
+}
+
+export function getPlaybackFrames(
+    timeline: GifTimeline
+) {
+    const selected = timeline.frames.slice(
+        timeline.start,
+        timeline.end + 1
+    );
+    const ordered = timeline.reverse
+        ? [...selected].reverse()
+        : selected;
+    const sequence = timeline.pingPong
+        ? [
+              ...ordered,
+              ...ordered.slice(1, -1).reverse(),
+          ]
+        : ordered;
+    return sequence.map((frame) => ({
+        ...frame,
+        delay: clampFrameDelay(
+            frame.delay / timeline.speed
+        ),
+    }));
+}
+
+export function applyTimeline(
+    gif: GifSource,
+    timeline: GifTimeline
+): GifSource {
+    return {
+        ...gif,
+        frames: getPlaybackFrames(timeline).map(
+            (frame) => ({
+                pixels: gif.frames[frame.source]
+                    .pixels,
+                delay: frame.delay,
+            })
+        ),
+    };
+}
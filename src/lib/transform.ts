@@ -0,0 +1,250 @@
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type CropRect = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+export type SourceTransform = {
+    rotation: Rotation;
+    flipX: boolean;
+    flipY: boolean;
+    crop: CropRect | null;
+};
+
+export type AspectLock =
+    "free" | "1:1" | "4:3" | "10:9" | "16:9";
+
+export const ASPECT_LOCKS: {
+    id: AspectLock;
+    label: string;
+    ratio: number | null;
+}[] = [
+    { id: "free", label: "Free", ratio: null },
+    { id: "1:1", label: "1:1", ratio: 1 },
+    { id: "4:3", label: "4:3", ratio: 4 / 3 },
+    {
+        id: "10:9",
+        label: "10:9 (Game Boy)",
+        ratio: 10 / 9,
+    },
+    { id: "16:9", label: "16:9", ratio: 16 / 9 },
+];
+
+export const IDENTITY_TRANSFORM: SourceTransform =
+    {
+        rotation: 0,
+        flipX: false,
+        flipY: false,
+        crop: null,
+    };
+
+export const isIdentityTransform = ({
+    rotation,
+    flipX,
+    flipY,
+    crop,
+}: SourceTransform) =>
+    rotation === 0 && !flipX && !flipY && !crop;
+
+export const getOrientedSize = (
+    width: number,
+    height: number,
+    rotation: Rotation
+) =>
+    rotation === 90 || rotation === 270
+        ? { width: height, height: width }
+        : { width, height };
+
+export function getCropPixels(
+    crop: CropRect | null,
+    width: number,
+    height: number
+) {
+    if (!crop) {
+        return { left: 0, top: 0, width, height };
+    }
+    const left = Math.min(
+        width - 1,
+        Math.max(0, Math.round(crop.x * width))
+    );
+    const top = Math.min(
+        height - 1,
+        Math.max(0, Math.round(crop.y * height))
+    );
+    return {
+        left,
+        top,
+        width: Math.max(
+            1,
+            Math.min(
+                width - left,
+                Math.round(crop.width * width)
+            )
+        ),
+        height: Math.max(
+            1,
+            Math.min(
+                height - top,
+                Math.round(crop.height * height)
+            )
+        ),
+    };
+}
+
+export function getTransformedSize(
+    width: number,
+    height: number,
+    transform: SourceTransform
+) {
+    const oriented = getOrientedSize(
+        width,
+        height,
+        transform.rotation
+    );
+    const crop = getCropPixels(
+        transform.crop,
+        oriented.width,
+        oriented.height
+    );
+    return {
+        width: crop.width,
+        height: crop.height,
+    };
+}
+
+export function rotateCrop(
+    crop: CropRect | null,
+    clockwise: boolean
+): CropRect | null {
+    if (!crop) return null;
+    return clockwise
+        ? {
+              x: 1 - crop.y - crop.height,
+              y: crop.x,
+              width: crop.height,
+              height: crop.width,
+          }
+        : {
+              x: crop.y,
+              y: 1 - crop.x - crop.width,
+              width: crop.height,
+              height: crop.width,
+          };
+}
+
+export function flipCrop(
+    crop: CropRect | null,
+    axis: "x" | "y"
+): CropRect | null {
+    if (!crop) return null;
+    return axis === "x"
+        ? { ...crop, x: 1 - crop.x - crop.width }
+        : {
+              ...crop,
+              y: 1 - crop.y - crop.height,
+          };
+}
+
+export function fitCropToAspect(
+    crop: CropRect,
+    ratio: number | null,
+    width: number,
+    height: number
+): CropRect {
+    if (!ratio) return crop;
+    const centerX =
+        (crop.x + crop.width / 2) * width;
+    const centerY =
+        (crop.y + crop.height / 2) * height;
+    let cropWidth = crop.width * width;
+    let cropHeight = cropWidth / ratio;
+    if (cropHeight > crop.height * height) {
+        cropHeight = crop.height * height;
+        cropWidth = cropHeight * ratio;
+    }
+    if (cropWidth > width) {
+        cropWidth = width;
+        cropHeight = cropWidth / ratio;
+    }
+    if (cropHeight > height) {
+        cropHeight = height;
+        cropWidth = cropHeight * ratio;
+    }
+    const left = Math.min(
+        width - cropWidth,
+        Math.max(0, centerX - cropWidth / 2)
+    );
+    const top = Math.min(
+        height - cropHeight,
+        Math.max(0, centerY - cropHeight / 2)
+    );
+    return {
+        x: left / width,
+        y: top / height,
+        width: cropWidth / width,
+        height: cropHeight / height,
+    };
+}
+
+export function transformFrame(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    transform: SourceTransform
+) {
+    if (isIdentityTransform(transform)) {
+        return { pixels, width, height };
+    }
+    const { rotation, flipX, flipY } = transform;
+    const oriented = getOrientedSize(
+        width,
+        height,
+        rotation
+    );
+    const crop = getCropPixels(
+        transform.crop,
+        oriented.width,
+        oriented.height
+    );
+    const output = new Uint8ClampedArray(
+        crop.width * crop.height * 4
+    );
+    for (let y = 0; y < crop.height; y++) {
+        const orientedY = flipY
+            ? oriented.height - 1 - (crop.top + y)
+            : crop.top + y;
+        for (let x = 0; x < crop.width; x++) {
+            const orientedX = flipX
+                ? oriented.width -
+                  1 -
+                  (crop.left + x)
+                : crop.left + x;
+            let sourceX = orientedX;
+            let sourceY = orientedY;
+            if (rotation === 90) {
+                sourceX = orientedY;
+                sourceY = height - 1 - orientedX;
+            } else if (rotation === 180) {
+                sourceX = width - 1 - orientedX;
+                sourceY = height - 1 - orientedY;
+            } else if (rotation === 270) {
+                sourceX = width - 1 - orientedY;
+                sourceY = orientedX;
+            }
+            const index =
+                (sourceY * width + sourceX) * 4;
+            output.set(
+                pixels.subarray(index, index + 4),
+                (y * crop.width + x) * 4
+            );
+        }
+    }
+    return {
+        pixels: output,
+        width: crop.width,
+        height: crop.height,
+    };
+}
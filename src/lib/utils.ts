@@ -14,3 +14,22 @@ export const hexToRgb = (hex: string) => {
         b: bigint & 255,
     };
 };
+
+export const downloadBlob = (
+    blob: Blob,
+    fileName: string
+) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+export const formatBytes = (bytes: number) =>
+    bytes < 1024
+        ? `${bytes} B`
+        : bytes < 1024 * 1024
+          ? `${(bytes / 1024).toFixed(1)} KB`
+          : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
@@ -0,0 +1,306 @@
+import {
+    DEFAULT_DECODE_BUDGET_MB,
+    getStoredFrameSize,
+} from "@/lib/gif-source";
+import type {
+    GifFrameData,
+    GifSource,
+} from "@/lib/gif-source";
+
+export type VideoTrim = {
+    start: number;
+    end: number;
+    fps: number;
+    maxFrames: number;
+};
+
+export type VideoInfo = {
+    duration: number;
+    width: number;
+    height: number;
+};
+
+export const DEFAULT_VIDEO_FPS = 12;
+export const DEFAULT_VIDEO_FRAME_CAP = 90;
+export const MAX_VIDEO_FRAME_CAP = 300;
+const MAX_VIDEO_DIMENSION = 640;
+const SEEK_TIMEOUT_MS = 10_000;
+
+export const isVideoFile = (file: File) =>
+    file.type.startsWith("video") ||
+    /\.(mp4|m4v|webm|mov|ogv)$/i.test(file.name);
+
+export const getDefaultVideoTrim = (
+    duration: number
+): VideoTrim => ({
+    start: 0,
+    end: duration,
+    fps: DEFAULT_VIDEO_FPS,
+    maxFrames: DEFAULT_VIDEO_FRAME_CAP,
+});
+
+export function getVideoFrameTimes(
+    trim: VideoTrim,
+    duration: number
+) {
+    const start = Math.max(
+        0,
+        Math.min(duration, trim.start)
+    );
+    const end = Math.max(
+        start,
+        Math.min(duration, trim.end)
+    );
+    const fps = Math.max(1, trim.fps);
+    const count = Math.max(
+        1,
+        Math.min(
+            trim.maxFrames,
+            Math.floor((end - start) * fps)
+        )
+    );
+    return Array.from({ length: count }, (_, i) =>
+        Math.min(
+            start + i / fps,
+            Math.max(0, duration - 0.001)
+        )
+    );
+}
+
+function seekVideo(
+    video: HTMLVideoElement,
+    time: number
+) {
+    return new Promise<void>(
+        (resolve, reject) => {
+            const timer = window.setTimeout(
+                () => {
+                    cleanup();
+                    reject(
+                        new Error(
+                            "Video seeking timed out."
+                        )
+                    );
+                },
+                SEEK_TIMEOUT_MS
+            );
+            const onSeeked = () => {
+                cleanup();
+                resolve();
+            };
+            const onError = () => {
+                cleanup();
+                reject(
+                    new Error(
+                        "Video failed to decode."
+                    )
+                );
+            };
+            const cleanup = () => {
+                window.clearTimeout(timer);
+                video.removeEventListener(
+                    "seeked",
+                    onSeeked
+                );
+                video.removeEventListener(
+                    "error",
+                    onError
+                );
+            };
+            video.addEventListener(
+                "seeked",
+                onSeeked
+            );
+            video.addEventListener(
+                "error",
+                onError
+            );
+            video.currentTime = time;
+        }
+    );
+}
+
+async function openVideo(url: string) {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    await new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () =>
+            reject(
+                new Error(
+                    "Video failed to load. The browser may not support this codec."
+                )
+            );
+        video.src = url;
+    });
+    video.onloadeddata = null;
+    video.onerror = null;
+    if (!Number.isFinite(video.duration)) {
+        await seekVideo(
+            video,
+            Number.MAX_SAFE_INTEGER
+        );
+    }
+    return video;
+}
+
+function closeVideo(
+    video: HTMLVideoElement | null,
+    url: string
+) {
+    if (video) {
+        video.removeAttribute("src");
+        video.load();
+    }
+    URL.revokeObjectURL(url);
+}
+
+export async function readVideoInfo(
+    file: File
+): Promise<VideoInfo> {
+    const url = URL.createObjectURL(file);
+    let video: HTMLVideoElement | null = null;
+    try {
+        video = await openVideo(url);
+        return {
+            duration: video.duration,
+            width: video.videoWidth,
+            height: video.videoHeight,
+        };
+    } finally {
+        closeVideo(video, url);
+    }
+}
+
+export async function extractVideoSource(
+    file: File,
+    trim: VideoTrim,
+    {
+        signal,
+        onProgress,
+        budgetBytes = DEFAULT_DECODE_BUDGET_MB *
+            1024 *
+            1024,
+    }: {
+        signal?: AbortSignal;
+        budgetBytes?: number;
+        onProgress?: (
+            done: number,
+            total: number
+        ) => void;
+    } = {}
+): Promise<GifSource> {
+    const url = URL.createObjectURL(file);
+    let video: HTMLVideoElement | null = null;
+    try {
+        video = await openVideo(url);
+        const scale = Math.min(
+            1,
+            MAX_VIDEO_DIMENSION /
+                Math.max(
+                    video.videoWidth,
+                    video.videoHeight
+                )
+        );
+        const times = getVideoFrameTimes(
+            trim,
+            video.duration
+        );
+        const { width, height } =
+            getStoredFrameSize({
+                width: Math.max(
+                    1,
+                    Math.round(
+                        video.videoWidth * scale
+                    )
+                ),
+                height: Math.max(
+                    1,
+                    Math.round(
+                        video.videoHeight * scale
+                    )
+                ),
+                frameCount: times.length,
+                budgetBytes,
+            });
+        const canvas =
+            document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d", {
+            willReadFrequently: true,
+        });
+        if (!ctx) {
+            throw new Error(
+                "Unable to create a video canvas."
+            );
+        }
+        const fps = Math.max(1, trim.fps);
+        const frames: GifFrameData[] = [];
+        for (let i = 0; i < times.length; i++) {
+            signal?.throwIfAborted();
+            await seekVideo(video, times[i]);
+            ctx.clearRect(0, 0, width, height);
+            ctx.drawImage(
+                video,
+                0,
+                0,
+                width,
+                height
+            );
+            frames.push({
+                pixels: ctx.getImageData(
+                    0,
+                    0,
+                    width,
+                    height
+                ).data,
+                delay: Math.max(
+                    1,
+                    Math.round(
+                        (100 * (i + 1)) / fps
+                    ) -
+                        Math.round(
+                            (100 * i) / fps
+                        )
+                ),
+            });
+            onProgress?.(i + 1, times.length);
+        }
+        return {
+            width,
+            height,
+            loopCount: 0,
+            frames,
+        };
+    } finally {
+        closeVideo(video, url);
+    }
+}
+
+export function frameToDataUrl(
+    frame: GifFrameData,
+    width: number,
+    height: number
+) {
+    const canvas =
+        document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas
+        .getContext("2d")
+        ?.putImageData(
+            new ImageData(
+                new Uint8ClampedArray(
+                    frame.pixels
+                ),
+                width,
+                height
+            ),
+            0,
+            0
+        );
+    return canvas.toDataURL("image/png");
+}
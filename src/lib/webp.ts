@@ -0,0 +1,525 @@
+const CODE_LENGTH_ORDER = [
+    17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10,
+    11, 12, 13, 14, 15,
+];
+
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_MATCH_LENGTH = 4096;
+const MIN_MATCH_LENGTH = 3;
+const DISTANCE_CODE_ABOVE = 1;
+const DISTANCE_CODE_LEFT = 2;
+
+class BitWriter {
+    private bytes = new Uint8Array(1024);
+    private length = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    write(value: number, bits: number) {
+        for (let i = 0; i < bits; i++) {
+            this.bitBuffer |=
+                ((value >>> i) & 1) <<
+                this.bitCount;
+            this.bitCount++;
+            if (this.bitCount === 8) {
+                this.pushByte(this.bitBuffer);
+                this.bitBuffer = 0;
+                this.bitCount = 0;
+            }
+        }
+    }
+
+    finish() {
+        if (this.bitCount > 0) {
+            this.pushByte(this.bitBuffer);
+            this.bitBuffer = 0;
+            this.bitCount = 0;
+        }
+        return this.bytes.slice(0, this.length);
+    }
+
+    private pushByte(byte: number) {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(
+                this.bytes.length * 2
+            );
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = byte;
+    }
+}
+
+type PrefixCode = {
+    lengths: Uint8Array;
+    codes: Uint16Array;
+};
+
+function buildCodeLengths(
+    counts: Uint32Array,
+    maxLength: number
+) {
+    const lengths = new Uint8Array(counts.length);
+    const used: number[] = [];
+    counts.forEach((count, symbol) => {
+        if (count > 0) used.push(symbol);
+    });
+    if (used.length === 0) return lengths;
+    if (used.length === 1) {
+        lengths[used[0]] = 1;
+        lengths[used[0] === 0 ? 1 : 0] = 1;
+        return lengths;
+    }
+    let weights = used.map(
+        (symbol) => counts[symbol]
+    );
+    for (;;) {
+        type Node = {
+            weight: number;
+            symbols: number[];
+        };
+        let nodes: Node[] = weights.map(
+            (weight, index) => ({
+                weight,
+                symbols: [index],
+            })
+        );
+        const depth = new Uint8Array(used.length);
+        while (nodes.length > 1) {
+            nodes.sort(
+                (a, b) => a.weight - b.weight
+            );
+            const [first, second] = nodes;
+            for (const index of [
+                ...first.symbols,
+                ...second.symbols,
+            ]) {
+                depth[index]++;
+            }
+            nodes = [
+                {
+                    weight:
+                        first.weight +
+                        second.weight,
+                    symbols: [
+                        ...first.symbols,
+                        ...second.symbols,
+                    ],
+                },
+                ...nodes.slice(2),
+            ];
+        }
+        if (Math.max(...depth) <= maxLength) {
+            used.forEach((symbol, index) => {
+                lengths[symbol] = depth[index];
+            });
+            return lengths;
+        }
+        weights = weights.map((weight) =>
+            Math.max(1, weight >> 1)
+        );
+    }
+}
+
+function assignCodes(lengths: Uint8Array) {
+    const codes = new Uint16Array(lengths.length);
+    const lengthCounts = new Uint16Array(16);
+    lengths.forEach((length) => {
+        if (length) lengthCounts[length]++;
+    });
+    const nextCode = new Uint16Array(16);
+    let code = 0;
+    for (let bits = 1; bits < 16; bits++) {
+        code =
+            (code + lengthCounts[bits - 1]) << 1;
+        nextCode[bits] = code;
+    }
+    lengths.forEach((length, symbol) => {
+        if (!length) return;
+        let value = nextCode[length]++;
+        let reversed = 0;
+        for (let i = 0; i < length; i++) {
+            reversed =
+                (reversed << 1) | (value & 1);
+            value >>= 1;
+        }
+        codes[symbol] = reversed;
+    });
+    return codes;
+}
+
+function writePrefixCode(
+    writer: BitWriter,
+    counts: Uint32Array
+): PrefixCode {
+    const used: number[] = [];
+    counts.forEach((count, symbol) => {
+        if (count > 0) used.push(symbol);
+    });
+    if (
+        used.length <= 2 &&
+        used.every((symbol) => symbol < 256)
+    ) {
+        const symbols = used.length ? used : [0];
+        writer.write(1, 1);
+        writer.write(symbols.length - 1, 1);
+        if (symbols[0] < 2) {
+            writer.write(0, 1);
+            writer.write(symbols[0], 1);
+        } else {
+            writer.write(1, 1);
+            writer.write(symbols[0], 8);
+        }
+        if (symbols.length === 2) {
+            writer.write(symbols[1], 8);
+        }
+        const lengths = new Uint8Array(
+            counts.length
+        );
+        if (symbols.length === 2) {
+            lengths[symbols[0]] = 1;
+            lengths[symbols[1]] = 1;
+        }
+        const codes = new Uint16Array(
+            counts.length
+        );
+        if (symbols.length === 2)
+            codes[symbols[1]] = 1;
+        return { lengths, codes };
+    }
+    const lengths = buildCodeLengths(counts, 15);
+    const lengthCounts = new Uint32Array(19);
+    lengths.forEach(
+        (length) => lengthCounts[length]++
+    );
+    const codeLengthLengths = buildCodeLengths(
+        lengthCounts,
+        7
+    );
+    const codeLengthCodes = assignCodes(
+        codeLengthLengths
+    );
+    let numCodes = CODE_LENGTH_ORDER.length;
+    while (
+        numCodes > 4 &&
+        codeLengthLengths[
+            CODE_LENGTH_ORDER[numCodes - 1]
+        ] === 0
+    ) {
+        numCodes--;
+    }
+    writer.write(0, 1);
+    writer.write(numCodes - 4, 4);
+    for (let i = 0; i < numCodes; i++) {
+        writer.write(
+            codeLengthLengths[
+                CODE_LENGTH_ORDER[i]
+            ],
+            3
+        );
+    }
+    writer.write(0, 1);
+    lengths.forEach((length) =>
+        writer.write(
+            codeLengthCodes[length],
+            codeLengthLengths[length]
+        )
+    );
+    return {
+        lengths,
+        codes: assignCodes(lengths),
+    };
+}
+
+function prefixEncode(value: number) {
+    const x = value - 1;
+    if (x < 4) {
+        return {
+            code: x,
+            extraBits: 0,
+            extra: 0,
+        };
+    }
+    const highest = 31 - Math.clz32(x);
+    const second = (x >> (highest - 1)) & 1;
+    const extraBits = highest - 1;
+    return {
+        code: 2 * highest + second,
+        extraBits,
+        extra: x & ((1 << extraBits) - 1),
+    };
+}
+
+type Token =
+    | { literal: true; argb: number }
+    | {
+          literal: false;
+          length: number;
+          distanceCode: number;
+      };
+
+function tokenize(
+    argb: Uint32Array,
+    width: number
+) {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < argb.length) {
+        let aboveLength = 0;
+        if (i >= width) {
+            while (
+                aboveLength < MAX_MATCH_LENGTH &&
+                i + aboveLength < argb.length &&
+                argb[i + aboveLength] ===
+                    argb[i + aboveLength - width]
+            ) {
+                aboveLength++;
+            }
+        }
+        let leftLength = 0;
+        if (i > 0) {
+            while (
+                leftLength < MAX_MATCH_LENGTH &&
+                i + leftLength < argb.length &&
+                argb[i + leftLength] ===
+                    argb[i - 1]
+            ) {
+                leftLength++;
+            }
+        }
+        const length = Math.max(
+            aboveLength,
+            leftLength
+        );
+        if (length >= MIN_MATCH_LENGTH) {
+            tokens.push({
+                literal: false,
+                length,
+                distanceCode:
+                    aboveLength >= leftLength
+                        ? DISTANCE_CODE_ABOVE
+                        : DISTANCE_CODE_LEFT,
+            });
+            i += length;
+        } else {
+            tokens.push({
+                literal: true,
+                argb: argb[i],
+            });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+export function encodeVp8l(
+    rgba: Uint8ClampedArray | Uint8Array,
+    width: number,
+    height: number
+) {
+    const argb = new Uint32Array(width * height);
+    let hasAlpha = false;
+    for (let i = 0; i < argb.length; i++) {
+        const alpha = rgba[i * 4 + 3];
+        if (alpha !== 255) hasAlpha = true;
+        argb[i] =
+            ((alpha << 24) |
+                (rgba[i * 4] << 16) |
+                (rgba[i * 4 + 1] << 8) |
+                rgba[i * 4 + 2]) >>>
+            0;
+    }
+    const tokens = tokenize(argb, width);
+    const green = new Uint32Array(
+        256 + NUM_LENGTH_CODES
+    );
+    const red = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const alpha = new Uint32Array(256);
+    const distance = new Uint32Array(
+        NUM_DISTANCE_CODES
+    );
+    for (const token of tokens) {
+        if (token.literal) {
+            green[(token.argb >>> 8) & 0xff]++;
+            red[(token.argb >>> 16) & 0xff]++;
+            blue[token.argb & 0xff]++;
+            alpha[token.argb >>> 24]++;
+        } else {
+            green[
+                256 +
+                    prefixEncode(token.length)
+                        .code
+            ]++;
+            distance[
+                prefixEncode(token.distanceCode)
+                    .code
+            ]++;
+        }
+    }
+
+    const writer = new BitWriter();
+    writer.write(0x2f, 8);
+    writer.write(width - 1, 14);
+    writer.write(height - 1, 14);
+    writer.write(hasAlpha ? 1 : 0, 1);
+    writer.write(0, 3);
+    writer.write(0, 1);
+    writer.write(0, 1);
+    writer.write(0, 1);
+    const [
+        greenCode,
+        redCode,
+        blueCode,
+        alphaCode,
+        distanceCode,
+    ] = [green, red, blue, alpha, distance].map(
+        (counts) =>
+            writePrefixCode(writer, counts)
+    );
+    const emit = (
+        code: PrefixCode,
+        symbol: number
+    ) =>
+        writer.write(
+            code.codes[symbol],
+            code.lengths[symbol]
+        );
+    for (const token of tokens) {
+        if (token.literal) {
+            emit(
+                greenCode,
+                (token.argb >>> 8) & 0xff
+            );
+            emit(
+                redCode,
+                (token.argb >>> 16) & 0xff
+            );
+            emit(blueCode, token.argb & 0xff);
+            emit(alphaCode, token.argb >>> 24);
+            continue;
+        }
+        const length = prefixEncode(token.length);
+        emit(greenCode, 256 + length.code);
+        writer.write(
+            length.extra,
+            length.extraBits
+        );
+        const dist = prefixEncode(
+            token.distanceCode
+        );
+        emit(distanceCode, dist.code);
+        writer.write(dist.extra, dist.extraBits);
+    }
+    return { data: writer.finish(), hasAlpha };
+}
+
+const fourCc = (text: string) =>
+    Uint8Array.from(text, (char) =>
+        char.charCodeAt(0)
+    );
+
+function riffChunk(
+    type: string,
+    data: Uint8Array
+) {
+    const padded =
+        data.length + (data.length & 1);
+    const chunk = new Uint8Array(8 + padded);
+    chunk.set(fourCc(type), 0);
+    new DataView(chunk.buffer).setUint32(
+        4,
+        data.length,
+        true
+    );
+    chunk.set(data, 8);
+    return chunk;
+}
+
+const writeUint24 = (
+    target: Uint8Array,
+    offset: number,
+    value: number
+) => {
+    target[offset] = value & 0xff;
+    target[offset + 1] = (value >> 8) & 0xff;
+    target[offset + 2] = (value >> 16) & 0xff;
+};
+
+export type WebpFrame = {
+    pixels: Uint8ClampedArray | Uint8Array;
+    duration: number;
+};
+
+export async function encodeAnimatedWebp({
+    width,
+    height,
+    frames,
+    loopCount = 0,
+    checkpoint,
+}: {
+    width: number;
+    height: number;
+    frames: WebpFrame[];
+    loopCount?: number;
+    checkpoint?: (index: number) => Promise<void>;
+}) {
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    let anyAlpha = false;
+    for (let i = 0; i < frames.length; i++) {
+        await checkpoint?.(i);
+        const { data, hasAlpha } = encodeVp8l(
+            frames[i].pixels,
+            width,
+            height
+        );
+        anyAlpha ||= hasAlpha;
+        const vp8l = riffChunk("VP8L", data);
+        const header = new Uint8Array(16);
+        writeUint24(header, 6, width - 1);
+        writeUint24(header, 9, height - 1);
+        writeUint24(
+            header,
+            12,
+            Math.min(0xffffff, frames[i].duration)
+        );
+        header[15] = 0b10;
+        const payload = new Uint8Array(
+            header.length + vp8l.length
+        );
+        payload.set(header);
+        payload.set(vp8l, header.length);
+        chunks.push(riffChunk("ANMF", payload));
+    }
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x02 | (anyAlpha ? 0x10 : 0);
+    writeUint24(vp8x, 4, width - 1);
+    writeUint24(vp8x, 7, height - 1);
+    const anim = new Uint8Array(6);
+    new DataView(anim.buffer).setUint16(
+        4,
+        loopCount,
+        true
+    );
+    const body = [
+        fourCc("WEBP"),
+        riffChunk("VP8X", vp8x),
+        riffChunk("ANIM", anim),
+        ...chunks,
+    ];
+    const size = body.reduce(
+        (sum, part) => sum + part.length,
+        0
+    );
+    const riffHeader = new Uint8Array(8);
+    riffHeader.set(fourCc("RIFF"));
+    new DataView(riffHeader.buffer).setUint32(
+        4,
+        size,
+        true
+    );
+    return new Blob([riffHeader, ...body], {
+        type: "image/webp",
+    });
+}
@@ -0,0 +1,160 @@
+import { crc32 } from "@/lib/png";
+
+export type ZipEntry = {
+    name: string;
+    data: Blob | Uint8Array<ArrayBuffer>;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+async function deflateRaw(
+    bytes: Uint8Array<ArrayBuffer>
+) {
+    if (
+        typeof CompressionStream === "undefined"
+    ) {
+        return null;
+    }
+    const stream = new Blob([bytes])
+        .stream()
+        .pipeThrough(
+            new CompressionStream("deflate-raw")
+        );
+    return new Uint8Array(
+        await new Response(stream).arrayBuffer()
+    );
+}
+
+const toDosDateTime = (date: Date) => ({
+    time:
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        (date.getSeconds() >> 1),
+    date:
+        ((Math.max(1980, date.getFullYear()) -
+            1980) <<
+            9) |
+        ((date.getMonth() + 1) << 5) |
+        date.getDate(),
+});
+
+export async function createZip(
+    entries: ZipEntry[]
+) {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(
+        new Date()
+    );
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    const central: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const data =
+            entry.data instanceof Blob
+                ? new Uint8Array(
+                      await entry.data.arrayBuffer()
+                  )
+                : entry.data;
+        const crc = crc32(data);
+        const deflated = await deflateRaw(data);
+        const compressed =
+            deflated &&
+            deflated.length < data.length
+                ? deflated
+                : data;
+        const method =
+            compressed === data
+                ? METHOD_STORE
+                : METHOD_DEFLATE;
+
+        const local = new Uint8Array(
+            30 + name.length
+        );
+        const localView = new DataView(
+            local.buffer
+        );
+        localView.setUint32(
+            0,
+            LOCAL_HEADER_SIGNATURE,
+            true
+        );
+        localView.setUint16(4, ZIP_VERSION, true);
+        localView.setUint16(6, UTF8_FLAG, true);
+        localView.setUint16(8, method, true);
+        localView.setUint16(10, time, true);
+        localView.setUint16(12, date, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(
+            18,
+            compressed.length,
+            true
+        );
+        localView.setUint32(
+            22,
+            data.length,
+            true
+        );
+        localView.setUint16(
+            26,
+            name.length,
+            true
+        );
+        local.set(name, 30);
+
+        const header = new Uint8Array(
+            46 + name.length
+        );
+        const view = new DataView(header.buffer);
+        view.setUint32(
+            0,
+            CENTRAL_HEADER_SIGNATURE,
+            true
+        );
+        view.setUint16(4, ZIP_VERSION, true);
+        view.setUint16(6, ZIP_VERSION, true);
+        view.setUint16(8, UTF8_FLAG, true);
+        view.setUint16(10, method, true);
+        view.setUint16(12, time, true);
+        view.setUint16(14, date, true);
+        view.setUint32(16, crc, true);
+        view.setUint32(
+            20,
+            compressed.length,
+            true
+        );
+        view.setUint32(24, data.length, true);
+        view.setUint16(28, name.length, true);
+        view.setUint32(42, offset, true);
+        header.set(name, 46);
+
+        parts.push(local, compressed);
+        central.push(header);
+        offset +=
+            local.length + compressed.length;
+    }
+    const centralSize = central.reduce(
+        (sum, header) => sum + header.length,
+        0
+    );
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(
+        0,
+        END_OF_DIRECTORY_SIGNATURE,
+        true
+    );
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+    return new Blob([...parts, ...central, end], {
+        type: "application/zip",
+    });
+}
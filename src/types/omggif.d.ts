@@ -28,6 +28,12 @@ declare module "omggif" {
             options?: GifFrameOptions
         ): number;
         end(): number;
+        getOutputBuffer(): Uint8Array;
+        setOutputBuffer(buffer: Uint8Array): void;
+        getOutputBufferPosition(): number;
+        setOutputBufferPosition(
+            position: number
+        ): void;
     }
 
     interface GifFrameInfo {
@@ -45,7 +51,9 @@ declare module "omggif" {
         height: number;
         numFrames(): number;
         loopCount(): number | null;
-        frameInfo(frameIndex: number): GifFrameInfo;
+        frameInfo(
+            frameIndex: number
+        ): GifFrameInfo;
         decodeAndBlitFrameRGBA(
             frameIndex: number,
             pixels: Uint8Array | Uint8ClampedArray
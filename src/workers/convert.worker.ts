@@ -0,0 +1,335 @@
+import {
+    ConversionCancelledError,
+    encodeRasterExport,
+    readSourceFrames,
+    runConversion,
+} from "@/lib/convert";
+import type {
+    RasterExport,
+    ConversionSettings,
+    ConversionSource,
+    ConvertRequest,
+    ConvertResponse,
+} from "@/lib/convert";
+import { createPaletteMatcher } from "@/lib/color-distance";
+import type {
+    DistanceMetric,
+    PaletteMatcher,
+} from "@/lib/color-distance";
+import {
+    collectPaletteSamples,
+    extractPalette,
+} from "@/lib/palette-extract";
+import type { PaletteAlgorithm } from "@/lib/palette-extract";
+import { transformFrame } from "@/lib/transform";
+import type { SourceTransform } from "@/lib/transform";
+import { applyTimeline } from "@/lib/timeline";
+import type { GifSource } from "@/lib/gif-source";
+import { hexToRgb } from "@/lib/utils";
+
+let source: ConversionSource | null = null;
+let decodedGif: GifSource | null = null;
+let activeJob = 0;
+let activeExport = 0;
+let activePalette = 0;
+let cachedSamples: {
+    key: string;
+    samples: ReturnType<
+        typeof collectPaletteSamples
+    >;
+} | null = null;
+let cachedMatcher: {
+    key: string;
+    matcher: PaletteMatcher;
+} | null = null;
+
+const MAX_PALETTE_SAMPLES = 65_536;
+
+const post = (
+    message: ConvertResponse,
+    transfer: Transferable[] = []
+) => self.postMessage(message, { transfer });
+
+const yieldToMessages = () =>
+    new Promise<void>((resolve) =>
+        setTimeout(resolve, 0)
+    );
+
+const getMatcher = (
+    paletteHex: string[],
+    metric: DistanceMetric
+) => {
+    const key = `${metric}:${paletteHex.join(",")}`;
+    if (cachedMatcher?.key !== key) {
+        cachedMatcher = {
+            key,
+            matcher: createPaletteMatcher(
+                paletteHex.map((hex) => ({
+                    hex,
+                    rgb: hexToRgb(hex),
+                })),
+                metric
+            ),
+        };
+    }
+    return cachedMatcher.matcher;
+};
+
+const convert = async (
+    jobId: number,
+    settings: ConversionSettings
+) => {
+    if (!source) {
+        post({
+            type: "error",
+            jobId,
+            message:
+                "Please upload an image first.",
+        });
+        return;
+    }
+    try {
+        const result = await runConversion({
+            source,
+            settings,
+            matcher: getMatcher(
+                settings.paletteHex,
+                settings.distanceMetric
+            ),
+            checkpoint: async () => {
+                await yieldToMessages();
+                if (activeJob !== jobId) {
+                    throw new ConversionCancelledError();
+                }
+            },
+            onProgress: (progress) =>
+                post({
+                    type: "progress",
+                    jobId,
+                    ...progress,
+                }),
+        });
+        if (activeJob !== jobId) return;
+        post({
+            type: "result",
+            jobId,
+            ...result,
+        });
+    } catch (error) {
+        if (
+            error instanceof
+            ConversionCancelledError
+        ) {
+            return;
+        }
+        console.error("[convert-worker]", error);
+        post({
+            type: "error",
+            jobId,
+            message:
+                error instanceof Error
+                    ? error.message
+                    : String(error),
+        });
+    }
+};
+
+const exportRaster = async (
+    jobId: number,
+    raster: RasterExport
+) => {
+    try {
+        const blob = await encodeRasterExport({
+            ...raster,
+            checkpoint: async () => {
+                await yieldToMessages();
+                if (activeExport !== jobId) {
+                    throw new ConversionCancelledError();
+                }
+            },
+            onProgress: (progress) =>
+                post({
+                    type: "export-progress",
+                    jobId,
+                    ...progress,
+                }),
+        });
+        if (activeExport !== jobId) return;
+        post({
+            type: "export-result",
+            jobId,
+            blob,
+        });
+    } catch (error) {
+        if (
+            error instanceof
+            ConversionCancelledError
+        ) {
+            return;
+        }
+        console.error("[convert-worker]", error);
+        post({
+            type: "export-error",
+            jobId,
+            message:
+                error instanceof Error
+                    ? error.message
+                    : String(error),
+        });
+    }
+};
+
+const getPaletteSamples = (
+    current: ConversionSource,
+    transform: SourceTransform
+) => {
+    const key = JSON.stringify(transform);
+    if (cachedSamples?.key !== key) {
+        const gif = readSourceFrames(current);
+        const perFrame = Math.ceil(
+            MAX_PALETTE_SAMPLES /
+                Math.max(1, gif.frames.length)
+        );
+        cachedSamples = {
+            key,
+            samples: gif.frames.flatMap((frame) =>
+                collectPaletteSamples(
+                    [
+                        transformFrame(
+                            frame.pixels,
+                            gif.width,
+                            gif.height,
+                            transform
+                        ).pixels,
+                    ],
+                    perFrame
+                )
+            ),
+        };
+    }
+    return cachedSamples.samples;
+};
+
+const extractSourcePalette = async (
+    jobId: number,
+    algorithm: PaletteAlgorithm,
+    colorCount: number,
+    transform: SourceTransform
+) => {
+    await yieldToMessages();
+    if (activePalette !== jobId) return;
+    try {
+        if (!source) {
+            throw new Error(
+                "Please upload an image first."
+            );
+        }
+        const colors = extractPalette({
+            samples: getPaletteSamples(
+                source,
+                transform
+            ),
+            colorCount,
+            algorithm,
+        });
+        if (activePalette !== jobId) return;
+        post({
+            type: "palette-result",
+            jobId,
+            colors,
+        });
+    } catch (error) {
+        console.error("[convert-worker]", error);
+        post({
+            type: "palette-error",
+            jobId,
+            message:
+                error instanceof Error
+                    ? error.message
+                    : String(error),
+        });
+    }
+};
+
+self.onmessage = (
+    event: MessageEvent<ConvertRequest>
+) => {
+    const request = event.data;
+    switch (request.type) {
+        case "source":
+            activeJob = 0;
+            source = null;
+            cachedSamples = null;
+            decodedGif =
+                request.source.kind === "frames"
+                    ? request.source.gif
+                    : null;
+            try {
+                source =
+                    request.source.kind ===
+                    "bitmap"
+                        ? {
+                              kind: "frames",
+                              gif: readSourceFrames(
+                                  request.source
+                              ),
+                          }
+                        : request.source;
+            } catch (error) {
+                console.error(
+                    "[convert-worker]",
+                    error
+                );
+            }
+            if (
+                request.source.kind === "bitmap"
+            ) {
+                request.source.bitmap.close();
+            }
+            break;
+        case "timeline":
+            cachedSamples = null;
+            if (decodedGif) {
+                source = {
+                    kind: "frames",
+                    gif: applyTimeline(
+                        decodedGif,
+                        request.timeline
+                    ),
+                };
+            }
+            break;
+        case "clear":
+            activeJob = 0;
+            source = null;
+            decodedGif = null;
+            cachedSamples = null;
+            break;
+        case "convert":
+            activeJob = request.jobId;
+            void convert(
+                request.jobId,
+                request.settings
+            );
+            break;
+        case "export":
+            activeExport = request.jobId;
+            void exportRaster(
+                request.jobId,
+                request.raster
+            );
+            break;
+        case "cancel-export":
+            activeExport = 0;
+            break;
+        case "palette":
+            activePalette = request.jobId;
+            void extractSourcePalette(
+                request.jobId,
+                request.algorithm,
+                request.colorCount,
+                request.transform
+            );
+            break;
+    }
+};